@@ -1,9 +1,12 @@
+import firebase from 'firebase/app';
 import ActiveClass from '.';
 import Schema from '../Schema';
 import pushWithId from '../utils/pushWithId';
 import setupTestServer from '../utils/setupTestServer';
 import '../utils/toContainObject'
 import ActiveClassError from './Error';
+import testExpectError from '../utils/testExpectError';
+import sleep from '../utils/sleep';
 
 describe('ActiveClass: with server connection', () => {
   const { server, db } = setupTestServer()
@@ -303,6 +306,58 @@ describe('ActiveClass: with server connection', () => {
       })
     })
 
+    describe('#find with operators', () => {
+      const memberSchema = {
+        name: Schema.string,
+        age: Schema.number({ optional: true }),
+        role: Schema.enum(['admin', 'mod', 'member']),
+        tags: Schema.indexed.true
+      }
+      class Member extends ActiveClass(memberSchema) {}
+
+      beforeAll(async (done) => {
+        await Member.ref().set(null)
+        await Member.create({ name: 'Ada', age: 36, role: 'admin', tags: { founder: true } })
+        await Member.create({ name: 'Bea', age: 17, role: 'member', tags: {} })
+        await Member.create({ name: 'Cal', role: 'mod', tags: { founder: true, night: true } })
+        done()
+      })
+
+      const namesOf = (members: Member[]) => members.map(member => member.name).sort()
+
+      it('matches by comparison', async (done) => {
+        expect(namesOf(await Member.find({ age: { $gte: 18 } }))).toEqual(['Ada'])
+        expect(namesOf(await Member.find({ age: { $gt: 17, $lte: 36 } }))).toEqual(['Ada'])
+        expect(namesOf(await Member.find({ age: { $lt: 36 } }))).toEqual(['Bea'])
+        expect(namesOf(await Member.find({ name: { $ne: 'Bea' } }))).toEqual(['Ada', 'Cal'])
+        done()
+      })
+
+      it('matches by set membership', async (done) => {
+        expect(namesOf(await Member.find({ role: { $in: ['admin', 'mod'] } }))).toEqual(['Ada', 'Cal'])
+        expect(namesOf(await Member.find({ role: { $nin: ['admin', 'mod'] } }))).toEqual(['Bea'])
+        done()
+      })
+
+      it('matches by existence, substrings and index keys', async (done) => {
+        expect(namesOf(await Member.find({ age: { $exists: false } }))).toEqual(['Cal'])
+        expect(namesOf(await Member.find({ name: { $contains: 'l' } }))).toEqual(['Cal'])
+        expect(namesOf(await Member.find({ tags: { $has: 'founder' } }))).toEqual(['Ada', 'Cal'])
+        done()
+      })
+
+      it('combines operators with exact matches', async (done) => {
+        expect(namesOf(await Member.find({ role: { $eq: 'mod' }, tags: { $has: 'night' } }))).toEqual(['Cal'])
+        expect(namesOf(await Member.find({ tags: { $has: 'founder' }, age: 36 }))).toEqual(['Ada'])
+        done()
+      })
+
+      testExpectError('rejects unsupported operators', async () => {
+        // @ts-ignore : check static error -> runtime error
+        await Member.find({ age: { $near: 20 } })
+      }, { message: "Could not match documents. The operator '$near' is not supported", constructor: ActiveClassError })
+    })
+
     describe('#findById', () => {
       const createData = { name: 'Alfred', age: 39 }
       let id: string
@@ -393,6 +448,292 @@ describe('ActiveClass: with server connection', () => {
       })
     })
 
+    describe('#values', () => {
+      let idOne: string, idTwo: string, idThree: string
+      beforeAll(async (done) => {
+        await Player.ref().set({})
+        idOne = await pushWithId(Player.ref(), { name: 'Alfred', age: 39 })
+        idTwo = await pushWithId(Player.ref(), { name: 'Martha', age: 39 })
+        idThree = await pushWithId(Player.ref(), { name: 'Alfred', age: 11 })
+        done()
+      })
+
+      it('returns the values of every document when no props are passed', async (done) => {
+        const values = await Player.values()
+        expect(values.map(value => value._id)).toEqual([idOne, idTwo, idThree])
+        done()
+      })
+
+      it('queries the server by a top-level field and matches the leftover props', async (done) => {
+        const orderByChild = jest.spyOn(Object.getPrototypeOf(Player.ref()), 'orderByChild')
+        const values = await Player.values({ name: 'Alfred', age: 11 })
+        expect(orderByChild).toHaveBeenCalledWith('name')
+        expect(values).toHaveLength(1)
+        expect(values[0]).toMatchObject({ _id: idThree, name: 'Alfred', age: 11 })
+        orderByChild.mockRestore()
+        done()
+      })
+
+      it('returns an empty array if no documents match', async (done) => {
+        const values = await Player.values({ name: 'Martha', age: 11 })
+        expect(values).toEqual([])
+        expect(await Player.value({ age: 12 })).toBeNull()
+        done()
+      })
+    })
+
+    describe('#paginate', () => {
+      let ids: string[]
+      beforeAll(async (done) => {
+        await Player.ref().set({})
+        ids = []
+        // ages with a tie, to check that cursors keep ties stable
+        for (const [name, age] of [['A', 30], ['B', 10], ['C', 20], ['D', 20], ['E', 40]] as [string, number][]) {
+          ids.push(await pushWithId(Player.ref(), { name, age }))
+        }
+        done()
+      })
+
+      it('pages through the table ordered by a field', async (done) => {
+        const first = await Player.paginate({ orderBy: 'age', pageSize: 2 })
+        expect(first.items.map(player => player.name)).toEqual(['B', 'C'])
+        expect(first.items[0]).toBeInstanceOf(Player)
+        expect(first.hasMore).toBe(true)
+
+        const second = await Player.paginate({ orderBy: 'age', pageSize: 2, after: first.nextCursor })
+        expect(second.items.map(player => player.name)).toEqual(['D', 'A'])
+        expect(second.hasMore).toBe(true)
+
+        const third = await Player.paginate({ orderBy: 'age', pageSize: 2, after: second.nextCursor })
+        expect(third.items.map(player => player.name)).toEqual(['E'])
+        expect(third.hasMore).toBe(false)
+        expect(third.nextCursor).toBeNull()
+        done()
+      })
+
+      it('pages through the table by _id when no field is given', async (done) => {
+        const first = await Player.paginate({ pageSize: 3 })
+        expect(first.items.map(player => player._id)).toEqual(ids.slice(0, 3))
+        const second = await Player.paginate({ pageSize: 3, after: first.nextCursor })
+        expect(second.items.map(player => player._id)).toEqual(ids.slice(3))
+        expect(second.hasMore).toBe(false)
+        done()
+      })
+
+      it('has no next page when the last page is exactly full', async (done) => {
+        const page = await Player.paginate({ pageSize: 5 })
+        expect(page.items).toHaveLength(5)
+        expect(page.hasMore).toBe(false)
+        expect(page.nextCursor).toBeNull()
+        done()
+      })
+
+      testExpectError('rejects a page size that is not a positive integer', async () => {
+        await Player.paginate({ pageSize: 0 })
+      }, { message: 'Could not paginate Player. The page size must be a positive integer, but was 0', constructor: ActiveClassError })
+
+      testExpectError('rejects a malformed cursor', async () => {
+        await Player.paginate({ pageSize: 2, after: 'not a cursor' })
+      }, { message: /Could not read the pagination cursor/, constructor: ActiveClassError })
+    })
+
+    describe('#query', () => {
+      let idOne: string, idTwo: string, idThree: string, idFour: string
+      beforeAll(async (done) => {
+        await Player.ref().set({})
+        idOne = await pushWithId(Player.ref(), { name: 'Alfred', age: 39 })
+        idTwo = await pushWithId(Player.ref(), { name: 'Martha', age: 12 })
+        idThree = await pushWithId(Player.ref(), { name: 'Alfred', age: 11 })
+        idFour = await pushWithId(Player.ref(), { name: 'Bruce', age: 25 })
+        done()
+      })
+
+      it('resolves to documents in the order of the queried field', async (done) => {
+        const players = await Player.query().orderBy('age').get()
+        expect(players.map(player => player._id)).toEqual([idThree, idTwo, idFour, idOne])
+        expect(players[0]).toBeInstanceOf(Player)
+        done()
+      })
+
+      it('can be awaited directly', async (done) => {
+        const players = await Player.query().where('name', '==', 'Alfred')
+        expect(players.map(player => player._id)).toEqual([idOne, idThree])
+        done()
+      })
+
+      it('filters by inclusive and strict ranges', async (done) => {
+        const inclusive = await Player.query().where('age', '>=', 12).where('age', '<=', 25).values()
+        expect(inclusive.map(player => player.name)).toEqual(['Martha', 'Bruce'])
+        const strict = await Player.query().where('age', '>', 12).where('age', '<', 39).values()
+        expect(strict.map(player => player.name)).toEqual(['Bruce'])
+        done()
+      })
+
+      it('checks every bound on the ordered field, however many there are', async (done) => {
+        const overTwenty = await Player.query().where('age', '>=', 20).where('age', '>=', 11).values()
+        expect(overTwenty.map(player => player.age)).toEqual([25, 39])
+        const underTwenty = await Player.query().where('age', '<=', 11).where('age', '<=', 20).values()
+        expect(underTwenty.map(player => player.age)).toEqual([11])
+        const twelve = await Player.query().where('age', '==', 12).where('age', '>=', 11).where('age', '<', 20).values()
+        expect(twelve.map(player => player._id)).toEqual([idTwo])
+        const none = await Player.query().where('age', '>=', 20).where('age', '==', 12).values()
+        expect(none).toEqual([])
+        done()
+      })
+
+      it('filters by fields other than the ordered one on the client', async (done) => {
+        const players = await Player.query().where('age', '<', 30).where('name', '==', 'Alfred').values()
+        expect(players).toHaveLength(1)
+        expect(players[0]).toMatchObject({ _id: idThree, age: 11 })
+        done()
+      })
+
+      it('checks where clauses on the client once ordered by another field', async (done) => {
+        const players = await Player.query().where('name', '==', 'Alfred').orderBy('age').values()
+        expect(players.map(player => player._id)).toEqual([idThree, idOne])
+        const adults = await Player.query().where('age', '>=', 18).orderByKey().values()
+        expect(adults.map(player => player._id)).toEqual([idOne, idFour])
+        done()
+      })
+
+      it('limits to the first or last documents', async (done) => {
+        const youngest = await Player.query().orderBy('age').limit(2).values()
+        expect(youngest.map(player => player.age)).toEqual([11, 12])
+        const oldest = await Player.query().orderBy('age').limitToLast(2).values()
+        expect(oldest.map(player => player.age)).toEqual([25, 39])
+        done()
+      })
+
+      it('limits the documents which match the checks on the client', async (done) => {
+        const olderThanEleven = await Player.query().where('age', '>', 11).limit(2).values()
+        expect(olderThanEleven.map(player => player.age)).toEqual([12, 25])
+        const martha = await Player.query().where('name', '==', 'Martha').orderBy('age').limit(1).values()
+        expect(martha.map(player => player._id)).toEqual([idTwo])
+        const youngestAlfred = await Player.query().where('name', '==', 'Alfred').orderBy('age').limitToLast(1).values()
+        expect(youngestAlfred.map(player => player._id)).toEqual([idOne])
+        done()
+      })
+
+      it('can order by key and start or end at a key', async (done) => {
+        const players = await Player.query().orderByKey().startAt(idTwo).endAt(idThree).values()
+        expect(players.map(player => player._id)).toEqual([idTwo, idThree])
+        done()
+      })
+
+      it('throws an ActiveClassError for a query that Firebase rejects', () => {
+        expect(() => Player.query().equalTo(1).startAt(2).ref()).toThrow(ActiveClassError)
+      })
+    })
+
+    describe('#watch', () => {
+      interface Call { names: string[], change?: { type: string, name: string, age: number } }
+
+      const watchCalls = (propsOrQuery: Parameters<typeof Player.watch>[0]) => {
+        const calls: Call[] = []
+        let unwatch = () => {}
+        const initialised = new Promise(resolve => {
+          unwatch = Player.watch(propsOrQuery, (documents, change) => {
+            calls.push({
+              names: documents.map(player => player.name),
+              change: change && { type: change.type, name: change.document.name, age: change.document.age }
+            })
+            if (!change) resolve()
+          })
+        })
+        return { calls, initialised, unwatch: () => unwatch() }
+      }
+
+      beforeEach(async (done) => {
+        await Player.ref().set({})
+        await Player.create({ name: 'Alfred', age: 39 })
+        await Player.create({ name: 'Martha', age: 12 })
+        done()
+      })
+
+      it('calls back with the initial results and then with each change', async (done) => {
+        const { calls, initialised, unwatch } = watchCalls({ age: { $gte: 18 } })
+        await initialised
+        expect(calls).toEqual([{ names: ['Alfred'], change: undefined }])
+
+        const bruce = await Player.create({ name: 'Bruce', age: 25 })
+        // the range is queried by ordering by age
+        expect(calls[1]).toEqual({ names: ['Bruce', 'Alfred'], change: { type: 'added', name: 'Bruce', age: 25 } })
+
+        await bruce.ref().update({ age: 26 })
+        expect(calls[2]).toEqual({ names: ['Bruce', 'Alfred'], change: { type: 'changed', name: 'Bruce', age: 26 } })
+
+        await bruce.ref().update({ age: 10 })
+        expect(calls[3]).toEqual({ names: ['Alfred'], change: { type: 'removed', name: 'Bruce', age: 26 } })
+
+        await Player.create({ name: 'Kid', age: 5 })
+        expect(calls).toHaveLength(4)
+
+        unwatch()
+        await Player.create({ name: 'Late', age: 50 })
+        expect(calls).toHaveLength(4)
+        done()
+      })
+
+      it('leaves out documents which do not fit the schema', async (done) => {
+        await pushWithId(Player.ref(), { name: 5, age: 40 })
+        const { calls, initialised, unwatch } = watchCalls({ age: { $gte: 18 } })
+        await initialised
+        expect(calls).toEqual([{ names: ['Alfred'], change: undefined }])
+
+        const bruceId = await pushWithId(Player.ref(), { name: 'Bruce', age: 25 })
+        await Player.ref(bruceId).update({ name: 5 })
+        expect(calls[calls.length - 1]).toEqual({ names: ['Alfred'], change: { type: 'removed', name: 5, age: 25 } })
+
+        unwatch()
+        done()
+      })
+
+      it('keeps the results of a query in order', async (done) => {
+        const { calls, initialised, unwatch } = watchCalls(Player.query().orderBy('age').limitToLast(2))
+        await initialised
+        expect(calls[0].names).toEqual(['Martha', 'Alfred'])
+
+        await Player.create({ name: 'Bruce', age: 25 })
+        expect(calls[calls.length - 1].names).toEqual(['Bruce', 'Alfred'])
+
+        unwatch()
+        done()
+      })
+
+      it('keeps the results of a limited query which is checked on the client', async (done) => {
+        const { calls, initialised, unwatch } = watchCalls(Player.query().where('age', '<', 39).limitToLast(1))
+        await initialised
+        expect(calls[0].names).toEqual(['Martha'])
+
+        const bruce = await Player.create({ name: 'Bruce', age: 25 })
+        expect(calls[calls.length - 1]).toEqual({ names: ['Bruce'], change: { type: 'added', name: 'Bruce', age: 25 } })
+
+        await Player.create({ name: 'Kid', age: 5 })
+        expect(calls).toHaveLength(2)
+
+        await bruce.ref().update({ age: 1 })
+        expect(calls[calls.length - 1].names).toEqual(['Martha'])
+
+        unwatch()
+        done()
+      })
+
+      it('stops syncing the documents to the database once it stops watching', async (done) => {
+        let unwatch = () => {}
+        const [alfred] = await new Promise<InstanceType<typeof Player>[]>(resolve => {
+          unwatch = Player.watch({ age: { $gte: 18 } }, resolve)
+        })
+        expect(alfred.syncOpts().toDb).toBe(true)
+
+        unwatch()
+        expect(alfred.syncOpts().toDb).toBe(false)
+        alfred.age = 40
+        await sleep(200)
+        expect(await server.getValue(alfred.ref('age'))).toBe(39)
+        done()
+      })
+    })
+
     describe('#ref', () => {
       it('returns the ref for the table when no argument is supplied', () => {
         expect(Player.ref()).toEqual(Player.ref())
@@ -403,6 +744,103 @@ describe('ActiveClass: with server connection', () => {
       })
     })
 
+    describe('#increment', () => {
+      // the test server can't apply increments, so check what is written
+      let id: string
+      let updateSpy: jest.SpyInstance
+      beforeEach(async (done) => {
+        id = await pushWithId(Player.ref(), { name: 'Alfred', age: 39 })
+        updateSpy = jest.spyOn(Object.getPrototypeOf(Player.ref()), 'update').mockResolvedValue(undefined)
+        done()
+      })
+      afterEach(() => {
+        updateSpy.mockRestore()
+      })
+
+      it('writes a server increment to the number field', async (done) => {
+        await Player.increment(id, 'age', 2)
+        expect(updateSpy).toHaveBeenCalledTimes(1)
+        expect(updateSpy).toHaveBeenCalledWith({ age: firebase.database.ServerValue.increment(2) })
+        expect(updateSpy.mock.instances[0].toString()).toBe(Player.ref(id).toString())
+        done()
+      })
+
+      it('increments by 1 by default, and decrements by a negative increment', async (done) => {
+        await Player.increment(id, 'age')
+        await Player.decrement(id, 'age', 3)
+        expect(updateSpy).toHaveBeenNthCalledWith(1, { age: firebase.database.ServerValue.increment(1) })
+        expect(updateSpy).toHaveBeenNthCalledWith(2, { age: firebase.database.ServerValue.increment(-3) })
+        done()
+      })
+
+      it('rejects paths which are not number fields without writing', async (done) => {
+        await expect(Player.increment(id, 'name')).rejects.toThrow("Could not increment Player. The property 'name' is not a number field")
+        await expect(Player.increment(id, 'nonexistent')).rejects.toThrow(ActiveClassError)
+        expect(updateSpy).not.toHaveBeenCalled()
+        done()
+      })
+
+      it('rejects deltas which are not finite numbers without writing', async (done) => {
+        await expect(Player.increment(id, 'age', NaN)).rejects.toThrow(
+          "Could not increment Player. The property 'age' can only be incremented by a finite number, not NaN"
+        )
+        await expect(Player.increment(id, 'age', Infinity)).rejects.toThrow(ActiveClassError)
+        expect(updateSpy).not.toHaveBeenCalled()
+        done()
+      })
+
+      it('rejects ids with no document without writing', async (done) => {
+        await expect(Player.increment('missing-id', 'age')).rejects.toThrow(
+          'Could not increment Player. No Player with that id exists in the connected Firebase Realtime Database'
+        )
+        expect(updateSpy).not.toHaveBeenCalled()
+        done()
+      })
+    })
+
+    describe('#transaction', () => {
+      let id: string
+      beforeEach(async (done) => {
+        await Player.ref().set({})
+        id = await pushWithId(Player.ref(), { name: 'Alfred', age: 39 })
+        done()
+      })
+
+      it('updates the document from its current values and returns it', async (done) => {
+        const res = await Player.transaction(id, player => ({ ...player, age: player.age + 1 }))
+        expect(res).toBeInstanceOf(Player)
+        expect(res).toMatchObject({ _id: id, name: 'Alfred', age: 40 })
+        expect(await server.getValue(Player.ref(id))).toMatchObject({ name: 'Alfred', age: 40 })
+        done()
+      })
+
+      it('does not lose concurrent updates', async (done) => {
+        await Promise.all([1, 2, 3, 4, 5].map(() => (
+          Player.transaction(id, player => ({ ...player, age: player.age + 1 }))
+        )))
+        expect(await server.getValue(Player.ref(id))).toMatchObject({ age: 44 })
+        done()
+      })
+
+      it('returns null without writing when the mutator aborts', async (done) => {
+        const res = await Player.transaction(id, () => undefined)
+        expect(res).toBeNull()
+        expect(await server.getValue(Player.ref(id))).toMatchObject({ name: 'Alfred', age: 39 })
+        done()
+      })
+
+      it('rejects a result that does not fit the schema without writing it', async (done) => {
+        // @ts-ignore : check static error -> runtime error
+        await expect(Player.transaction(id, player => ({ ...player, age: 'forty' }))).rejects.toThrow("Could not run transaction on Player. The property 'age' is of the wrong type")
+        expect(await server.getValue(Player.ref(id))).toMatchObject({ name: 'Alfred', age: 39 })
+        done()
+      })
+
+      testExpectError('rejects when there is no document with the id', async () => {
+        await Player.transaction('nonexistent', player => player)
+      }, { message: "Could not run transaction on Player. No Player with that id exists", constructor: ActiveClassError })
+    })
+
     describe('#update', () => {
       let res: InstanceType<typeof Player>[]
       let idOne: string, idTwo: string, idThree: string
@@ -442,6 +880,24 @@ describe('ActiveClass: with server connection', () => {
         expect(players).toEqual([])
         done()
       })
+
+      testExpectError('rejects updates that do not fit the schema', async () => {
+        // @ts-ignore : check static error -> runtime error
+        await Player.update({ name: 'Alfred' }, { age: 'forty' })
+      }, { message: "Could not update Player. The property 'age' is of the wrong type", constructor: ActiveClassError })
+
+      testExpectError('rejects nulling a required field', async () => {
+        // @ts-ignore : check static error -> runtime error
+        await Player.update({ name: 'Alfred' }, { age: null })
+      }, { message: "Could not update Player. The property 'age' is of the wrong type", constructor: ActiveClassError })
+
+      it('does not write rejected updates to the database', async (done) => {
+        // @ts-ignore : check static error -> runtime error
+        await expect(Player.update({ name: 'Alfred' }, { age: 'forty' })).rejects.toThrow(ActiveClassError)
+        const entryOne = await server.getValue(Player.ref().child(idOne))
+        expect(entryOne).toMatchObject({ name: 'Alfred', age: 40 })
+        done()
+      })
     })
 
     describe('#updateOne', () => {
@@ -480,6 +936,14 @@ describe('ActiveClass: with server connection', () => {
         expect(players).toBeNull()
         done()
       })
+
+      it('rejects an update that does not fit the schema without writing it', async (done) => {
+        // @ts-ignore : check static error -> runtime error
+        await expect(Player.updateOne({ name: 'Alfred' }, { name: 4 })).rejects.toThrow("Could not update Player. The property 'name' is of the wrong type")
+        const entryOne = await server.getValue(Player.ref().child(idOne))
+        expect(entryOne).toMatchObject({ name: 'Alfred', age: 40 })
+        done()
+      })
     })
   })
 
@@ -661,6 +1125,68 @@ describe('ActiveClass: with server connection', () => {
       })
     })
 
+    describe('.increment', () => {
+      let updateSpy: jest.SpyInstance
+      beforeEach(async (done) => {
+        player = await Player.create({ name: 'Muriel', age: 7 })
+        updateSpy = jest.spyOn(Object.getPrototypeOf(Player.ref()), 'update').mockResolvedValue(undefined)
+        done()
+      })
+      afterEach(() => {
+        updateSpy.mockRestore()
+      })
+
+      it('updates the document optimistically and writes a server increment', async (done) => {
+        await player.increment('age', 3)
+        expect(player.age).toBe(10)
+        await player.decrement('age')
+        expect(player.age).toBe(9)
+        expect(updateSpy).toHaveBeenCalledTimes(2)
+        expect(updateSpy).toHaveBeenLastCalledWith({ age: firebase.database.ServerValue.increment(-1) })
+        done()
+      })
+
+      it('reverts the optimistic update if the write fails', async (done) => {
+        updateSpy.mockRejectedValue(new Error('permission_denied'))
+        await expect(player.increment('age')).rejects.toThrow('Could not increment Player. permission_denied')
+        expect(player.age).toBe(7)
+        done()
+      })
+
+      it('refuses documents which have not been saved', async (done) => {
+        const unsaved = new Player({ name: 'Bruce', age: 25 })
+        await expect(unsaved.increment('age')).rejects.toThrow(
+          'Could not increment Player. The Player has not been saved to the database'
+        )
+        expect(unsaved.age).toBe(25)
+        expect(unsaved._id).toBeUndefined()
+        expect(updateSpy).not.toHaveBeenCalled()
+        done()
+      })
+    })
+
+    describe('.transaction', () => {
+      beforeAll(async (done) => {
+        player = await Player.create({ name: 'Muriel', age: 7 })
+        done()
+      })
+
+      it('updates the database and the document with the committed values', async (done) => {
+        const res = await player.transaction(values => ({ ...values, age: values.age * 2 }))
+        expect(res).toMatchObject({ name: 'Muriel', age: 14 })
+        expect(player.age).toBe(14)
+        expect(await server.getValue(player.ref())).toMatchObject({ name: 'Muriel', age: 14 })
+        done()
+      })
+
+      it('leaves the document unchanged when the mutator aborts', async (done) => {
+        const res = await player.transaction(() => undefined)
+        expect(res).toBeNull()
+        expect(player.age).toBe(14)
+        done()
+      })
+    })
+
     describe('.syncOpts', () => {
       it("when initialized through `new`, shows all syncing as off", () => {
         const player = new Player({ name: 'Bob', age: 2 })
@@ -736,7 +1262,659 @@ describe('ActiveClass: with server connection', () => {
           expect(serverPlayer.name).toBe('Bob')
           done()
         })
+
+        it('removes values set to undefined from the db', async (done) => {
+          class Wizard extends ActiveClass({ name: Schema.string, nick: Schema.string({ optional: true }) }) {}
+          const wizard = await Wizard.create({ name: 'Ronald', nick: 'Ron' })
+          wizard.nick = undefined
+          await sleep(200)
+          const serverWizard = await server.getValue(wizard.ref())
+          expect(serverWizard).toMatchObject({ name: 'Ronald' })
+          expect(serverWizard.nick).toBeUndefined()
+          done()
+        })
+      })
+    })
+  })
+
+  describe('timestamp fields', () => {
+    class Post extends ActiveClass({
+      title: Schema.string,
+      publishedAt: Schema.timestamp,
+      updatedAt: Schema.timestamp({ default: 'serverNow' })
+    }) {}
+
+    beforeEach(async (done) => {
+      await Post.ref().set({})
+      done()
+    })
+
+    it('stores timestamps as epoch millis, and the server time for serverNow', async (done) => {
+      const before = Date.now()
+      const post = await Post.create({ title: 'Hello', publishedAt: new Date(1000) })
+      const postInDb = await server.getValue(post.ref())
+      expect(postInDb.publishedAt).toBe(1000)
+      expect(typeof postInDb.updatedAt).toBe('number')
+      expect(postInDb.updatedAt).toBeGreaterThanOrEqual(before)
+      done()
+    })
+
+    it('holds Dates on documents read from the database', async (done) => {
+      const id = await pushWithId(Post.ref(), { title: 'Hello', publishedAt: 1000, updatedAt: 2000 })
+      const post = await Post.findByIdOrFail(id)
+      expect(post.publishedAt).toBeInstanceOf(Date)
+      expect(post.publishedAt.getTime()).toBe(1000)
+      expect(post.updatedAt.getTime()).toBe(2000)
+      done()
+    })
+
+    it('syncs assigned Dates as epoch millis', async (done) => {
+      const post = await Post.create({ title: 'Hello', publishedAt: 1000 })
+      post.publishedAt = new Date(3000)
+      await post.pendingSetters()
+      const publishedAtSnapshot = await post.ref('publishedAt').once('value')
+      expect(publishedAtSnapshot.val()).toBe(3000)
+      done()
+    })
+
+    it('matches props and updates by Dates', async (done) => {
+      await Post.create({ title: 'Old', publishedAt: 1000 })
+      await Post.create({ title: 'New', publishedAt: 5000 })
+      const recent = await Post.find({ publishedAt: { $gte: new Date(2000) } })
+      expect(recent.map(post => post.title)).toEqual(['New'])
+      const exact = await Post.findOne({ publishedAt: new Date(1000) })
+      expect(exact && exact.title).toBe('Old')
+      await Post.updateOne({ title: 'Old' }, { publishedAt: new Date(6000) })
+      const old = await Post.value({ title: 'Old' })
+      expect(old && old.publishedAt).toBe(6000)
+      done()
+    })
+  })
+
+  describe('timestamps option', () => {
+    class Note extends ActiveClass({ text: Schema.string }, 'Note', { timestamps: true }) {}
+
+    beforeEach(async (done) => {
+      await Note.ref().set({})
+      done()
+    })
+
+    it('sets createdAt and updatedAt to the server time on create', async (done) => {
+      const before = Date.now()
+      const note = await Note.create({ text: 'Hello' })
+      const noteInDb = await server.getValue(note.ref())
+      expect(noteInDb.createdAt).toBeGreaterThanOrEqual(before)
+      expect(noteInDb.updatedAt).toBe(noteInDb.createdAt)
+      done()
+    })
+
+    it('bumps updatedAt, but not createdAt, on synced writes', async (done) => {
+      const id = await pushWithId(Note.ref(), { text: 'Hello', createdAt: 1000, updatedAt: 1000 })
+      const note = await Note.findByIdOrFail(id)
+      note.text = 'Goodbye'
+      await sleep(200)
+      const noteInDb = await server.getValue(note.ref())
+      expect(noteInDb).toMatchObject({ text: 'Goodbye', createdAt: 1000 })
+      expect(noteInDb.updatedAt).toBeGreaterThan(1000)
+      expect(note.updatedAt.getTime()).toBe(noteInDb.updatedAt)
+      done()
+    })
+
+    it('removes values set to undefined whilst bumping updatedAt', async (done) => {
+      class Memo extends ActiveClass({ text: Schema.string, tag: Schema.string({ optional: true }) }, 'Memo', { timestamps: true }) {}
+      const id = await pushWithId(Memo.ref(), { text: 'Hello', tag: 'todo', createdAt: 1000, updatedAt: 1000 })
+      const memo = await Memo.findByIdOrFail(id)
+      memo.tag = undefined
+      await sleep(200)
+      const memoInDb = await server.getValue(memo.ref())
+      expect(memoInDb).toMatchObject({ text: 'Hello', createdAt: 1000 })
+      expect(memoInDb.tag).toBeUndefined()
+      expect(memoInDb.updatedAt).toBeGreaterThan(1000)
+      done()
+    })
+
+    it('bumps updatedAt on save', async (done) => {
+      const note = new Note({ text: 'Hello', createdAt: 1000, updatedAt: 1000 })
+      await note.save()
+      const noteInDb = await server.getValue(note.ref())
+      expect(noteInDb.createdAt).toBe(1000)
+      expect(noteInDb.updatedAt).toBeGreaterThan(1000)
+      done()
+    })
+
+    it('keeps createdAt when saved again', async (done) => {
+      const note = new Note({ text: 'Hello' })
+      await note.save()
+      const { createdAt } = await server.getValue(note.ref())
+      expect(note.createdAt.getTime()).toBe(createdAt)
+      await sleep(50)
+      await note.save()
+      const noteInDb = await server.getValue(note.ref())
+      expect(noteInDb.createdAt).toBe(createdAt)
+      expect(noteInDb.updatedAt).toBeGreaterThan(createdAt)
+      done()
+    })
+
+    it('refuses to update createdAt', async (done) => {
+      const id = await pushWithId(Note.ref(), { text: 'Hello', createdAt: 1000, updatedAt: 1000 })
+      await expect(
+        // @ts-ignore : readonly in types
+        Note.update({ text: 'Hello' }, { createdAt: new Date(2000) })
+      ).rejects.toThrow(`The property 'createdAt' is readonly`)
+      const noteInDb = await server.getValue(Note.ref(id))
+      expect(noteInDb.createdAt).toBe(1000)
+      done()
+    })
+
+    it('bumps updatedAt on update and updateOne', async (done) => {
+      const idOne = await pushWithId(Note.ref(), { text: 'One', createdAt: 1000, updatedAt: 1000 })
+      const idTwo = await pushWithId(Note.ref(), { text: 'Two', createdAt: 1000, updatedAt: 1000 })
+      await Note.update({ text: 'One' }, { text: 'Uno' })
+      await Note.updateOne({ text: 'Two' }, { text: 'Dos' })
+      const [noteOne, noteTwo] = await Promise.all([
+        server.getValue(Note.ref(idOne)),
+        server.getValue(Note.ref(idTwo))
+      ])
+      expect(noteOne).toMatchObject({ text: 'Uno', createdAt: 1000 })
+      expect(noteOne.updatedAt).toBeGreaterThan(1000)
+      expect(noteTwo).toMatchObject({ text: 'Dos', createdAt: 1000 })
+      expect(noteTwo.updatedAt).toBeGreaterThan(1000)
+      done()
+    })
+
+    it('bumps updatedAt with increments', async (done) => {
+      class Counter extends ActiveClass({ count: Schema.number }, 'Counter', { timestamps: true }) {}
+      // the test server can't apply increments, so check what is written
+      const id = await pushWithId(Counter.ref(), { count: 0, createdAt: 1000, updatedAt: 1000 })
+      const updateSpy = jest.spyOn(Object.getPrototypeOf(Counter.ref()), 'update').mockResolvedValue(undefined)
+      await Counter.increment(id, 'count')
+      expect(updateSpy).toHaveBeenCalledWith({
+        count: firebase.database.ServerValue.increment(1),
+        updatedAt: firebase.database.ServerValue.TIMESTAMP
+      })
+      updateSpy.mockRestore()
+      done()
+    })
+
+    it('bumps updatedAt in transactions', async (done) => {
+      const id = await pushWithId(Note.ref(), { text: 'Hello', createdAt: 1000, updatedAt: 1000 })
+      await Note.transaction(id, values => ({ ...values, text: 'Goodbye' }))
+      const noteInDb = await server.getValue(Note.ref(id))
+      expect(noteInDb).toMatchObject({ text: 'Goodbye', createdAt: 1000 })
+      expect(noteInDb.updatedAt).toBeGreaterThan(1000)
+      done()
+    })
+  })
+
+  describe('array fields', () => {
+    class Recipe extends ActiveClass({
+      title: Schema.string,
+      steps: Schema.array(Schema.string)
+    }) {}
+
+    beforeEach(async (done) => {
+      await Recipe.ref().set({})
+      done()
+    })
+
+    it('syncs pushed, spliced and assigned elements', async (done) => {
+      const recipe = await Recipe.create({ title: 'Pasta', steps: ['Boil'] })
+      recipe.steps.push('Drain')
+      await sleep(100)
+      expect(await server.getValue(recipe.ref('steps'))).toEqual(['Boil', 'Drain'])
+      recipe.steps.splice(0, 1)
+      await sleep(100)
+      expect(await server.getValue(recipe.ref('steps'))).toEqual(['Drain'])
+      recipe.steps[0] = 'Serve'
+      await sleep(100)
+      expect(await server.getValue(recipe.ref('steps'))).toEqual(['Serve'])
+      done()
+    })
+
+    it('reads arrays with missing indices back as arrays', async (done) => {
+      const id = await pushWithId(Recipe.ref(), { title: 'Pasta', steps: { 0: 'Boil', 2: 'Serve' } })
+      const recipe = await Recipe.findByIdOrFail(id)
+      expect(recipe.steps).toEqual(['Boil', 'Serve'])
+      done()
+    })
+
+    it('coerces arrays with missing indices on reload and from the database', async (done) => {
+      const recipe = await Recipe.create({ title: 'Pasta', steps: ['Boil'] })
+      await recipe.ref('steps').set({ 0: 'Boil', 3: 'Serve' })
+      await sleep(100)
+      expect(recipe.steps).toEqual(['Boil', 'Serve'])
+      recipe.syncOpts({ fromDb: false })
+      await recipe.ref('steps').set({ 1: 'Drain', 4: 'Serve' })
+      await recipe.reload()
+      expect(recipe.steps).toEqual(['Drain', 'Serve'])
+      done()
+    })
+  })
+
+  describe('indexed nested schemas', () => {
+    class Group extends ActiveClass({
+      name: Schema.string,
+      members: Schema.indexed.of({
+        role: Schema.enum(['admin', 'member'], { default: 'member' }),
+        joinedAt: Schema.timestamp
       })
+    }) {}
+
+    beforeEach(async (done) => {
+      await Group.ref().set({})
+      done()
+    })
+
+    it('syncs added values and their properties', async (done) => {
+      const group = await Group.create({ name: 'Chess club' })
+      group.members.abc = { role: 'member', joinedAt: new Date(1000) }
+      await sleep(100)
+      group.members.abc.role = 'admin'
+      await sleep(100)
+      expect(await server.getValue(group.ref('members'))).toEqual({
+        abc: { role: 'admin', joinedAt: 1000 }
+      })
+      done()
+    })
+
+    it('checks values read from the database', async (done) => {
+      const id = await pushWithId(Group.ref(), { name: 'Chess club', members: { abc: { joinedAt: 1000 } } })
+      const group = await Group.findByIdOrFail(id)
+      expect(group.members.abc.role).toBe('member')
+      expect(group.members.abc.joinedAt.getTime()).toBe(1000)
+      done()
+    })
+  })
+
+  describe('string constraints', () => {
+    class Account extends ActiveClass({
+      username: Schema.string({ minLength: 3, trim: true })
+    }) {}
+
+    beforeEach(async (done) => {
+      await Account.ref().set({})
+      done()
+    })
+
+    it('syncs values as they were checked', async (done) => {
+      const account = await Account.create({ username: ' richard ' })
+      account.username = ' rich '
+      await account.pendingSetters()
+      expect(await server.getValue(account.ref())).toMatchObject({ username: 'rich' })
+      done()
+    })
+
+    it('does not sync values which break a constraint', async (done) => {
+      const account = await Account.create({ username: 'richard' })
+      expect(() => { account.username = 'ab' }).toThrow(ActiveClassError)
+      await sleep(100)
+      expect(await server.getValue(account.ref())).toMatchObject({ username: 'richard' })
+      done()
+    })
+  })
+
+  describe('number constraints', () => {
+    class Product extends ActiveClass({
+      name: Schema.string,
+      price: Schema.number({ min: 0 }),
+      quantity: Schema.number({ integer: true })
+    }) {}
+
+    beforeEach(async (done) => {
+      await Product.ref().set({})
+      done()
+    })
+
+    it('does not update documents with values which break a constraint', async (done) => {
+      const id = await pushWithId(Product.ref(), { name: 'Pen', price: 2, quantity: 10 })
+      await expect(Product.update({ name: 'Pen' }, { price: -2 })).rejects.toThrow(
+        `Could not update Product. The property 'price' is less than its min of 0`
+      )
+      await expect(Product.updateOne({ name: 'Pen' }, { quantity: 2.5 })).rejects.toThrow(
+        `Could not update Product. The property 'quantity' is not an integer, as required by its integer option`
+      )
+      expect(await server.getValue(Product.ref(id))).toMatchObject({ price: 2, quantity: 10 })
+      done()
+    })
+
+    it('refuses to increment integer fields by a fraction', async (done) => {
+      const product = await Product.create({ name: 'Pen', price: 2, quantity: 10 })
+      await expect(Product.increment(product._id as string, 'quantity', 0.5)).rejects.toThrow(
+        `Could not increment Product. The property 'quantity' is an integer field, so cannot be incremented by 0.5`
+      )
+      await expect(product.increment('quantity', 1.5)).rejects.toThrow(ActiveClassError)
+      expect(product.quantity).toBe(10)
+      expect(await server.getValue(product.ref())).toMatchObject({ quantity: 10 })
+      done()
+    })
+
+    it('increments fields with a min or max within them, and refuses to go past them', async (done) => {
+      const product = await Product.create({ name: 'Pen', price: 2, quantity: 10 })
+      await Product.decrement(product._id as string, 'price', 1.5)
+      expect(await server.getValue(product.ref())).toMatchObject({ price: 0.5 })
+      await expect(Product.decrement(product._id as string, 'price')).rejects.toThrow(
+        `Could not increment Product. The property 'price' is less than its min of 0`
+      )
+      await expect(product.decrement('price')).rejects.toThrow(ActiveClassError)
+      expect(product.price).toBe(0.5)
+      expect(await server.getValue(product.ref())).toMatchObject({ price: 0.5 })
+      done()
+    })
+
+    it('increments a document syncing from the database by the delta only once', async (done) => {
+      class Counter extends ActiveClass({ count: Schema.number({ min: 0 }) }) {}
+      const counter = await Counter.create({ count: 0 })
+      await counter.increment('count', 2)
+      await sleep(1000)
+      expect(counter.count).toBe(2)
+      expect(await server.getValue(counter.ref())).toMatchObject({ count: 2 })
+      done()
+    })
+  })
+
+  describe('asynchronous validators', () => {
+    // annotated, as it refers to the class whose schema it is in
+    const isUnique = async (email: string, member: any): Promise<boolean | string> => {
+      const other = await Member.findOne({ email })
+      return !other || other._id === member._id || 'is already taken'
+    }
+
+    class Member extends ActiveClass({
+      email: Schema.string({ validateAsync: isUnique })
+    }, 'Member', {
+      validateAsync: async (member: any) => member.email !== 'banned@example.com'
+    }) {}
+
+    beforeEach(async (done) => {
+      await Member.ref().set({})
+      done()
+    })
+
+    it('are awaited before create', async (done) => {
+      await Member.create({ email: 'richard@example.com' })
+      await expect(Member.create({ email: 'richard@example.com' })).rejects.toThrow(
+        `Could not create Member. The property 'email' failed its validate check: is already taken`
+      )
+      await expect(Member.create({ email: 'banned@example.com' })).rejects.toThrow(
+        `Could not create Member. The document failed its validate check`
+      )
+      expect(Object.keys(await server.getValue(Member.ref()))).toHaveLength(1)
+      done()
+    })
+
+    it('are awaited before save', async (done) => {
+      await Member.create({ email: 'richard@example.com' })
+      const member = new Member({ email: 'richard@example.com' })
+      await expect(member.save()).rejects.toThrow(
+        `Failed to save Member into database. The property 'email' failed its validate check: is already taken`
+      )
+      done()
+    })
+
+    it('are awaited before update and updateOne', async (done) => {
+      await Member.create({ email: 'richard@example.com' })
+      const other = await Member.create({ email: 'other@example.com' })
+      await expect(Member.updateOne({ email: 'other@example.com' }, { email: 'richard@example.com' })).rejects.toThrow(
+        `Could not update Member. The property 'email' failed its validate check: is already taken`
+      )
+      await expect(Member.update({ email: 'other@example.com' }, { email: 'banned@example.com' })).rejects.toThrow(
+        `Could not update Member. The document failed its validate check`
+      )
+      expect(await server.getValue(other.ref('email'))).toBe('other@example.com')
+      await Member.updateOne({ email: 'other@example.com' }, { email: 'another@example.com' })
+      expect(await server.getValue(other.ref('email'))).toBe('another@example.com')
+      done()
+    })
+  })
+
+  describe('asynchronous validators of arrays, indexes and unions', () => {
+    const hasRoom = async (value: object) => Object.keys(value).length > 0 || 'is empty'
+
+    class Shelf extends ActiveClass({
+      books: Schema.array(Schema.string, { validateAsync: hasRoom }),
+      loans: Schema.indexed.string({ validateAsync: hasRoom }),
+      location: Schema.union('kind', {
+        room: { name: Schema.string },
+        store: {}
+      }, { validateAsync: async (location: any) => location.kind !== 'store' || 'is not on display' })
+    }) {}
+
+    const valid = { books: ['Emma'], loans: { richard: 'Emma' }, location: { kind: 'room' as const, name: 'Study' } }
+
+    beforeEach(async (done) => {
+      await Shelf.ref().set({})
+      done()
+    })
+
+    it('are awaited before writes', async (done) => {
+      await expect(Shelf.create({ ...valid, books: [] })).rejects.toThrow(
+        `Could not create Shelf. The property 'books' failed its validate check: is empty`
+      )
+      await expect(Shelf.create({ ...valid, loans: {} })).rejects.toThrow(
+        `Could not create Shelf. The property 'loans' failed its validate check: is empty`
+      )
+      const shelf = new Shelf({ ...valid, location: { kind: 'store' } })
+      await expect(shelf.save()).rejects.toThrow(
+        `Failed to save Shelf into database. The property 'location' failed its validate check: is not on display`
+      )
+      expect(await server.getValue(Shelf.ref())).toBeNull()
+      await Shelf.create(valid)
+      done()
+    })
+  })
+
+  describe('coercion and transforms', () => {
+    class Booking extends ActiveClass({
+      guests: Schema.number({ coerce: true }),
+      email: Schema.string({ transform: (email: string) => email.toLowerCase() })
+    }) {}
+
+    beforeEach(async (done) => {
+      await Booking.ref().set({})
+      done()
+    })
+
+    it('creates documents with the converted values', async (done) => {
+      const booking = await Booking.create({ guests: '2', email: 'Richard@Example.com' })
+      expect(await server.getValue(booking.ref())).toMatchObject({ guests: 2, email: 'richard@example.com' })
+      done()
+    })
+
+    it('syncs the converted values on assignment', async (done) => {
+      const booking = await Booking.create({ guests: 2, email: 'richard@example.com' })
+      // @ts-ignore : properties are read as they are assigned, so are typed without the string
+      booking.guests = '3'
+      booking.email = 'RICHARD@EXAMPLE.COM'
+      await booking.pendingSetters()
+      expect(await server.getValue(booking.ref())).toMatchObject({ guests: 3, email: 'richard@example.com' })
+      done()
+    })
+
+    it('writes the converted values on update', async (done) => {
+      const booking = await Booking.create({ guests: 2, email: 'richard@example.com' })
+      const [updated] = await Booking.update({ guests: 2 }, { guests: '3', email: 'RICHARD@EXAMPLE.COM' })
+      expect(updated.guests).toBe(3)
+      expect(await server.getValue(booking.ref())).toMatchObject({ guests: 3, email: 'richard@example.com' })
+      await Booking.updateOne({ guests: 3 }, { guests: '4' })
+      expect(await server.getValue(booking.ref('guests'))).toBe(4)
+      done()
+    })
+
+    it('transforms each value once, and not values from the database', async (done) => {
+      class Tally extends ActiveClass({
+        label: Schema.string,
+        points: Schema.number({ transform: (points: number) => points * 10 })
+      }) {}
+      const tally = await Tally.create({ label: 'Gryffindor', points: 1 })
+      tally.label = 'Slytherin'
+      await tally.pendingSetters()
+      expect(tally.points).toBe(10)
+      expect((await Tally.findByIdOrFail(tally.getId())).points).toBe(10)
+      await tally.reload()
+      expect(tally.points).toBe(10)
+
+      await Tally.update({ label: 'Slytherin' }, { label: 'Hufflepuff' })
+      await Tally.updateOne({ label: 'Hufflepuff' }, { points: 2 })
+      expect(await server.getValue(tally.ref())).toMatchObject({ label: 'Hufflepuff', points: 20 })
+      done()
+    })
+  })
+
+  describe('json fields', () => {
+    class Webhook extends ActiveClass({
+      payload: Schema.json<{ [key: string]: any }>()
+    }) {}
+
+    beforeEach(async (done) => {
+      await Webhook.ref().set({})
+      done()
+    })
+
+    it('creates documents with the value', async (done) => {
+      const webhook = await Webhook.create({ payload: { event: 'paid', items: [{ amount: 42 }] } })
+      expect(await server.getValue(webhook.ref('payload'))).toEqual({ event: 'paid', items: [{ amount: 42 }] })
+      done()
+    })
+
+    it('syncs the whole value on changes within it', async (done) => {
+      const webhook = await Webhook.create({ payload: { event: 'paid', items: [{ amount: 42 }] } })
+      webhook.payload.items[0].amount = 40
+      delete webhook.payload.event
+      await webhook.pendingSetters()
+      expect(await server.getValue(webhook.ref('payload'))).toEqual({ items: [{ amount: 40 }] })
+      done()
+    })
+
+    it('round-trips through the database, which does not store empty values', async (done) => {
+      const webhook = await Webhook.create({ payload: { event: 'paid', items: [] } })
+      const found = await Webhook.findByIdOrFail(webhook.getId())
+      expect(found.payload).toEqual({ event: 'paid' })
+      await expect(Webhook.create({ payload: {} })).rejects.toThrow(
+        `Could not create Webhook. The required property 'payload' is empty, which the database does not store`
+      )
+      done()
+    })
+  })
+
+  describe('readonly fields', () => {
+    class Account extends ActiveClass({
+      ownerId: Schema.string({ readonly: true }),
+      openedAt: Schema.timestamp({ readonly: true, default: 'serverNow' }),
+      openingBalance: Schema.number({ readonly: true, default: 0 }),
+      balance: Schema.number
+    }) {}
+
+    beforeEach(async (done) => {
+      await Account.ref().set({})
+      done()
+    })
+
+    it('refuses changes to found documents, without syncing them', async (done) => {
+      const { _id } = await Account.create({ ownerId: 'abc', balance: 0 })
+      const account = await Account.findByIdOrFail(_id as string)
+      // @ts-ignore : readonly in types
+      expect(() => { account.ownerId = 'def' }).toThrow(`The property 'ownerId' is readonly`)
+      account.balance = 10
+      await account.pendingSetters()
+      expect(await server.getValue(account.ref())).toMatchObject({ ownerId: 'abc', balance: 10 })
+      done()
+    })
+
+    it('takes values from reloading', async (done) => {
+      const account = await Account.create({ ownerId: 'abc', balance: 0 })
+      // the server's time differs from the client's guess
+      account.syncOpts({ fromDb: false })
+      await Account.ref(`${account._id}/openedAt`).set(1000)
+      await account.reload()
+      expect(account.ownerId).toBe('abc')
+      expect(account.openedAt.getTime()).toBe(1000)
+      done()
+    })
+
+    it('refuses changes to watched documents, but takes changes from the database', async (done) => {
+      const { _id } = await Account.create({ ownerId: 'abc', balance: 0 })
+      const watched: Array<InstanceType<typeof Account>[]> = []
+      let unwatch = () => {}
+      await new Promise(resolve => {
+        unwatch = Account.watch({}, documents => {
+          watched.push(documents)
+          resolve()
+        })
+      })
+      const [account] = watched[0]
+      // @ts-ignore : readonly in types
+      expect(() => { account.ownerId = 'def' }).toThrow(`The property 'ownerId' is readonly`)
+      await Account.ref(`${_id}/ownerId`).set('ghi')
+      expect(account.ownerId).toBe('ghi')
+      expect(await server.getValue(Account.ref(_id as string))).toMatchObject({ ownerId: 'ghi' })
+      unwatch()
+      done()
+    })
+
+    it('aborts transactions which change them', async (done) => {
+      const account = await Account.create({ ownerId: 'abc', balance: 0 })
+      await expect(Account.transaction(account._id as string, values => ({ ...values, ownerId: 'def', balance: 10 }))).rejects.toThrow(
+        `Could not run transaction on Account. The property 'ownerId' is readonly, so cannot be changed once the Account is saved`
+      )
+      expect(await server.getValue(account.ref())).toMatchObject({ ownerId: 'abc', balance: 0 })
+      expect(await Account.transaction(account._id as string, values => ({ ...values, balance: 10 }))).toMatchObject({ ownerId: 'abc', balance: 10 })
+      done()
+    })
+
+    it('refuses updates to them, without writing any', async (done) => {
+      const account = await Account.create({ ownerId: 'abc', balance: 0 })
+      // @ts-ignore : readonly in types
+      await expect(Account.updateOne({ ownerId: 'abc' }, { ownerId: 'def', balance: 10 })).rejects.toThrow(
+        `Could not update Account. The property 'ownerId' is readonly, so cannot be changed once the Account is saved`
+      )
+      expect(await server.getValue(account.ref())).toMatchObject({ ownerId: 'abc', balance: 0 })
+      done()
+    })
+
+    it('refuses increments to them, without writing or guessing any', async (done) => {
+      const account = await Account.create({ ownerId: 'abc', openingBalance: 5, balance: 0 })
+      await expect(Account.increment(account._id as string, 'openingBalance')).rejects.toThrow(
+        `Could not increment Account. The property 'openingBalance' is readonly, so cannot be changed once the Account is saved`
+      )
+      await expect(account.decrement('openingBalance')).rejects.toThrow(ActiveClassError)
+      expect(account.openingBalance).toBe(5)
+      expect(await server.getValue(account.ref())).toMatchObject({ openingBalance: 5 })
+      done()
+    })
+  })
+
+  describe('hidden fields', () => {
+    class Member extends ActiveClass({
+      email: Schema.string,
+      passwordHash: Schema.string({ hidden: true })
+    }) {}
+
+    beforeEach(async (done) => {
+      await Member.ref().set({})
+      done()
+    })
+
+    it('syncs changes to them', async (done) => {
+      const member = await Member.create({ email: 'richard@example.com', passwordHash: 'hash' })
+      member.passwordHash = 'new hash'
+      await member.pendingSetters()
+      expect(await server.getValue(member.ref('passwordHash'))).toBe('new hash')
+      done()
+    })
+
+    it('saves them', async (done) => {
+      const member = new Member({ email: 'richard@example.com', passwordHash: 'hash' })
+      await member.save()
+      expect(await server.getValue(member.ref())).toMatchObject({ passwordHash: 'hash' })
+      done()
+    })
+
+    it('holds them on found documents, but leaves them out of their JSON', async (done) => {
+      await Member.create({ email: 'richard@example.com', passwordHash: 'hash' })
+      const member = await Member.findOne({ email: 'richard@example.com' })
+      expect(member && member.passwordHash).toBe('hash')
+      expect(JSON.parse(JSON.stringify(member))).not.toHaveProperty('passwordHash')
+      done()
     })
   })
-})
\ No newline at end of file
+})
@@ -1,5 +1,6 @@
-import { ActiveClass } from "../types/class.types";
-import { DocumentSchema } from '../types/schema.types';
+import { ActiveClass, ActiveClassOptions, SchemaWithOptions } from "../types/class.types";
+import { DocumentSchema, TimestampsSchema } from '../types/schema.types';
+import timestamp from '../Schema/timestamp.schema';
 import makeActiveClassConstructor from './constructor/makeActiveClassConstructor';
 import addActiveClassStatics from './statics/addActiveClassStatics';
 import addActiveClassInstances from './instances/addActiveClassInstances';
@@ -10,23 +11,43 @@ import addActiveClassCache from './statics/addActiveClassCache';
  * 
  * @param schema - The `DocumentSchema` for an `ActiveDocument` of the resultant class
  * @param className - The name used as a basis for the Firebase RTD table
+ * @param options - Options for the `ActiveClass`, e.g. `{ timestamps: true }`
  * 
  * @returns The `ActiveClass<S>`.
  * @template Schema - A `DocumentSchema`
+ * @template Options - The `ActiveClassOptions`
  */
-function ActiveClass<Schema extends DocumentSchema>(schema: Schema, className?: string) {
+function ActiveClass<Schema extends DocumentSchema, Options extends ActiveClassOptions = {}>(
+  schema: Schema,
+  className?: string,
+  options: Options = {} as Options
+) {
+  type FullSchema = SchemaWithOptions<Schema, Options>
+
   // our JavaScript `Document` variable, with a constructor type
-  let ActiveClass: ActiveClass<Schema>;
+  let ActiveClass: ActiveClass<FullSchema>;
+
+  const timestampsSchema: TimestampsSchema = {
+    createdAt: timestamp({ default: 'serverNow', readonly: true }),
+    updatedAt: timestamp({ default: 'serverNow' })
+  }
+
+  const fullSchema = (
+    options.timestamps ? { ...schema, ...timestampsSchema } : schema
+  ) as FullSchema
 
-  const readonlySchema = Object.freeze(schema)
+  const readonlySchema = Object.freeze(fullSchema)
 
   // Constructor function does not satisfy the whole `ActiveClass` type
   //  so it needs to be case to any
-  ActiveClass = <any>makeActiveClassConstructor(schema, className);
+  ActiveClass = <any>makeActiveClassConstructor(fullSchema, className);
 
   // @ts-ignore: initial assignment for later readonly
   ActiveClass.schema = readonlySchema
 
+  // @ts-ignore: initial assignment for later readonly
+  ActiveClass.options = Object.freeze({ ...options })
+
   // adding static properties/methods onto `ActiveClass`
   // @ts-ignore : infinitely deep :(
   addActiveClassStatics(ActiveClass)
@@ -36,7 +57,7 @@ function ActiveClass<Schema extends DocumentSchema>(schema: Schema, className?:
 
   // adding instance methods and properties onto `ActiveClass.prototype`
   // @ts-ignore : infinitely deep :(
-  addActiveClassInstances(ActiveClass, { schema })
+  addActiveClassInstances(ActiveClass, { schema: fullSchema })
 
   return ActiveClass
 }
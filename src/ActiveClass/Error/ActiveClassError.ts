@@ -37,12 +37,20 @@ class ActiveClassError extends Error {
     this.why = why
   }
 
+  /**
+   * A copy of the error, with some of its details replaced
+   * 
+   * @param details - The details to replace
+   */
+  withDetails(details: Partial<WhyWhatError>): ActiveClassError {
+    return new ActiveClassError({ why: this.why, ...details })
+  }
+
   static from(err: Error, details: Partial<WhyWhatError>) {
-    const why = err instanceof ActiveClassError
-      ? err.why
-      : err.message
+    // keep the kind of error, e.g. a `ValidationError` with its issues
+    if (err instanceof ActiveClassError) return err.withDetails(details)
 
-    return new ActiveClassError({ why, ...details })
+    return new ActiveClassError({ why: err.message, ...details })
   }
 }
 
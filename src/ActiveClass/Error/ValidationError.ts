@@ -0,0 +1,38 @@
+import ActiveClassError from './ActiveClassError'
+import { ValidationIssue } from '../../types/validation.types'
+
+interface WhatIssuesError {
+  /**
+   * **What** operation/update failed
+   */
+  what: string
+
+  /**
+   * Every way in which the values did not fit the schema
+   */
+  issues: ValidationIssue[]
+}
+
+class ValidationError extends ActiveClassError {
+  /**
+   * Every way in which the values did not fit the schema
+   */
+  issues: ValidationIssue[]
+
+  /**
+   * 
+   * @param param0.what - What operation failed
+   * @param param0.issues - Every way in which the values did not fit the schema
+   */
+  constructor({ what, issues }: WhatIssuesError) {
+    super({ what, why: issues.map(issue => issue.message).join('. ') })
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+
+  withDetails({ what = this.what }: { what?: string }): ValidationError {
+    return new ValidationError({ what, issues: this.issues })
+  }
+}
+
+export default ValidationError
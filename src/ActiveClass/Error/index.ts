@@ -1,3 +1,6 @@
 import ActiveClassError from "./ActiveClassError";
+import ValidationError from "./ValidationError";
 
-export default ActiveClassError
\ No newline at end of file
+export { ValidationError }
+
+export default ActiveClassError
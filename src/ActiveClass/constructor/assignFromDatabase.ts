@@ -0,0 +1,24 @@
+import onChange from 'on-change'
+import { ActiveClass } from '../../types/class.types'
+import checkDocument from './checkDocument'
+
+/**
+ * Assign values which come from the database to a document,
+ *  without syncing them back or refusing changes to readonly
+ *  fields (e.g. a server timestamp), and then check the document
+ *  against its schema
+ *
+ * @param document - The document to update
+ * @param values - The values from the database
+ * @param what - What operation fails if the document does not fit
+ */
+function assignFromDatabase(document: { constructor: ActiveClass<any> }, values: object | null, what: string): void {
+  const target = onChange.target(document)
+  Object.assign(target, values)
+  checkDocument(target, document.constructor.schema, {
+    what,
+    validate: document.constructor.options.validate
+  })
+}
+
+export default assignFromDatabase
@@ -0,0 +1,66 @@
+import { get, set } from 'lodash'
+import { DocumentSchema } from '../../types/schema.types'
+import checkPrimitive from './checkPrimitive'
+import validatorFailure from './validatorFailure'
+import ValidationError from '../Error/ValidationError'
+import { checkAll } from '../validation/issues'
+
+interface CheckDocumentOptions {
+  /**
+   * What operation fails if the document does not fit the schema
+   */
+  what: string,
+
+  /**
+   * A synchronous validator of the document as a whole
+   */
+  validate?: Function
+}
+
+/**
+ * Check every field of a document (or any object of values)
+ *  against a schema, in place (with defaults and conversions),
+ *  and then the document as a whole against its validator
+ * 
+ * @param document - The document to check
+ * @param schema - The schema to check it against
+ * @param options.what - What operation fails if the document does not fit
+ * @param options.validate - A validator of the document as a whole
+ * @throws a `ValidationError` with every issue found in the document
+ */
+function checkDocument<Schema extends DocumentSchema>(
+  document: object,
+  schema: Schema,
+  { what, validate }: CheckDocumentOptions
+): void {
+  /**
+   * The checks of the fields at and within a path, including
+   *  iterating within child keys if it's an object at that
+   *  particular path
+   */
+  const checksAtPath = (schemaKeyPath: string[]): Array<() => void> => {
+    if (get(schema, [...schemaKeyPath, '_fieldIdentifier'])) {
+      return [() => checkPrimitive(document, { schema, schemaKeyPath, what })]
+    }
+    // probably an object
+    if (typeof get(document, schemaKeyPath) === 'undefined') {
+      // if it's undefined as a property, set it to empty object
+      set(document, schemaKeyPath, {})
+    }
+    return Object.keys(get(schema, schemaKeyPath)).reduce((checks, childKey) => [
+      ...checks,
+      ...checksAtPath([...schemaKeyPath, childKey])
+    ], [] as Array<() => void>)
+  }
+
+  checkAll(what, Object.keys(schema).reduce((checks, key) => [
+    ...checks,
+    ...checksAtPath([key])
+  ], [] as Array<() => void>))
+
+  // then check the document as a whole
+  const failure = validatorFailure(validate, document, document, [])
+  if (failure) throw new ValidationError({ what, issues: [failure] })
+}
+
+export default checkDocument
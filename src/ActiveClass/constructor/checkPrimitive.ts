@@ -1,92 +1,39 @@
 import { get, set } from 'lodash'
-import { ActiveDocument } from '../../types/class.types'
 import { DocumentSchema } from '../../types/schema.types';
-import { FieldIdentifier, FieldDefinition } from '../../types/field.types';
-import ActiveClassError from '../Error/ActiveClassError';
+import { FieldIdentifier, AnyFieldDefinition } from '../../types/field.types';
+import checkValue from './checkValue';
 
 interface A<Schema extends DocumentSchema> {
   schema: Schema,
-  schemaKeyPath: string[]
+  schemaKeyPath: string[],
+  what: string
 }
 
-function checkPrimitive<Schema extends DocumentSchema>(this: ActiveDocument<Schema>, {
+/**
+ * Check the value of a document at the path of a field definition,
+ *  in place (with defaults and conversions)
+ *
+ * @param document - The document to check
+ * @param schema - The schema of the document
+ * @param schemaKeyPath - The path to the field definition
+ * @param what - What operation fails if the value does not fit
+ * @throws a `ValidationError` with every issue found in the value
+ */
+function checkPrimitive<Schema extends DocumentSchema>(document: object, {
   schema,
-  schemaKeyPath
+  schemaKeyPath,
+  what
 }: A<Schema>) {
+  const schemaFieldDef: AnyFieldDefinition = get(schema, schemaKeyPath)
+  const currentVal = get(document, schemaKeyPath)
 
-  const defaultErrorWhat = `Could not set or update ${this.constructor.name}`
+  const checkedVal = checkValue(schemaFieldDef, currentVal, schemaKeyPath, what, document)
+  if (checkedVal !== currentVal) set(document, schemaKeyPath, checkedVal)
 
-  /**
-   * Check the current value at the current schema key path.
-   *  Wrap in a function as we don't want to only retrieve
-   *  the value right now - we want to 
-   */
-  const currentValAtPath = () => get(this, [...schemaKeyPath])
-  const schemaFieldDef: FieldDefinition = get(schema, schemaKeyPath)
-
-  // check if the path has the `_hasDefault` property and is undefined
-  if (get(schemaFieldDef, '_hasDefault') && typeof currentValAtPath() === 'undefined') {
-    const defaultVal = get(schema, [...schemaKeyPath, 'default'])
-    set(this, schemaKeyPath, defaultVal)
-  }
-
-  if (get(schemaFieldDef, 'required') && typeof currentValAtPath() === 'undefined') {
-    throw new ActiveClassError({
-      what: defaultErrorWhat,
-      why: `The required property '${schemaKeyPath.join('.')}' is missing`
-    })
-  }
-
-  if (currentValAtPath() === undefined) {
-    if (schemaFieldDef && schemaFieldDef._fieldIdentifier === FieldIdentifier.indexed) {
-      set(this, schemaKeyPath, {})
-    }
-  } else {
-    let doesMatch = true
-    switch (schemaFieldDef && schemaFieldDef._fieldIdentifier) {
-      case FieldIdentifier.string:
-        doesMatch = typeof currentValAtPath() === 'string'; break
-      case FieldIdentifier.number:
-        doesMatch = typeof currentValAtPath() === 'number'; break
-      case FieldIdentifier.true:
-        doesMatch = currentValAtPath() === true; break
-      case FieldIdentifier.boolean:
-        doesMatch = typeof currentValAtPath() === 'boolean'; break
-      case FieldIdentifier.enum:
-        const enumFieldDef = schemaFieldDef as FieldDefinition<Array<string>>
-        // the enum values are on the field definition's vals property
-        doesMatch = enumFieldDef.vals.includes(currentValAtPath()); break
-      case FieldIdentifier.indexed:
-        doesMatch = Object.values(currentValAtPath()).every(val => {
-          if (typeof val === 'undefined') return true
-          switch (get(schemaFieldDef, ['indexed', '_fieldIdentifier'])) {
-            case FieldIdentifier.string:
-              return typeof val === 'string'
-            case FieldIdentifier.number:
-              return typeof val === 'number'
-            case FieldIdentifier.true:
-              return val === true
-            case FieldIdentifier.boolean:
-              return typeof val === 'boolean'
-            case FieldIdentifier.enum:
-              const indexedFieldDef = schemaFieldDef as FieldDefinition<{ [key: string]: any }>
-              return indexedFieldDef.indexed.vals.includes(val)
-          }
-        })
-        break
-    }
-
-    if (!doesMatch) {
-      if (currentValAtPath() === null && !schemaFieldDef.required) {
-        // all okay
-      } else {
-        throw new ActiveClassError({
-          what: defaultErrorWhat,
-          why: `The property '${schemaKeyPath.join('.')}' is of the wrong type`
-        })
-      }
-    }
+  // documents always have an object for an indexed field
+  if (typeof checkedVal === 'undefined' && schemaFieldDef._fieldIdentifier === FieldIdentifier.indexed) {
+    set(document, schemaKeyPath, {})
   }
 }
 
-export default checkPrimitive
\ No newline at end of file
+export default checkPrimitive
@@ -0,0 +1,193 @@
+import { cloneDeep } from 'lodash'
+import { AnyFieldDefinition, FieldIdentifier } from '../../types/field.types'
+import { SchemaDefinition } from '../../types/schema.types'
+import { ValidationIssue } from '../../types/validation.types'
+import ValidationError from '../Error/ValidationError'
+import { ServerTimestamp } from '../../Schema/timestamp.schema'
+import enumr from '../../Schema/enum.schema'
+import isFieldDefinition from '../../utils/isFieldDefinition'
+import constraintViolation from './constraintViolation'
+import jsonViolation from './jsonViolation'
+import { checkAll, kindOf, requiredIssue, typeIssue } from '../validation/issues'
+
+const isObject = (value: unknown): value is { [key: string]: any } => (
+  !!value && typeof value === 'object' && !Array.isArray(value)
+)
+
+/**
+ * The Realtime Database hands back arrays with missing indices
+ *  as objects keyed by index, e.g. `{ 0: 'a', 2: 'c' }`, or as
+ *  arrays with holes, e.g. `['a', undefined, 'c']`
+ * 
+ * @param value - The value of an array field
+ * @returns the elements in index order, without any missing ones
+ */
+export const toArray = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    // `filter` skips over the holes
+    return Object.keys(value).length < value.length
+      ? value.filter(() => true)
+      : value
+  }
+  return isObject(value) && Object.keys(value).every(key => /^\d+$/.test(key))
+    ? Object.keys(value)
+      .sort((a, b) => Number(a) - Number(b))
+      .map(key => value[key])
+    : value
+}
+
+/**
+ * A fresh default value for a field definition, so that documents
+ *  do not share mutable defaults. A default which is a function is
+ *  called for each document.
+ * 
+ * @param definition - The field definition with a default
+ */
+export const defaultFor = (definition: AnyFieldDefinition): any => {
+  const defaultVal = typeof definition.default === 'function'
+    ? definition.default()
+    : definition.default
+  switch (definition._fieldIdentifier) {
+    case FieldIdentifier.timestamp:
+      return defaultVal === 'serverNow' ? new ServerTimestamp() : new Date(defaultVal)
+    case FieldIdentifier.array:
+      return [...defaultVal]
+    case FieldIdentifier.indexed:
+      return { ...defaultVal }
+    case FieldIdentifier.json:
+      return cloneDeep(defaultVal)
+    default:
+      return defaultVal
+  }
+}
+
+/**
+ * Check a value against a field definition or nested schema, whether
+ *  of a field or below one (such as the elements of an array).
+ *  Nested objects and arrays are updated in place, with defaults
+ *  and conversions (e.g. epoch millis to `Date`s).
+ * 
+ * @param definition - The field definition or nested schema
+ * @param value - The value to check
+ * @param path - The path to the value, for error messages
+ * @param what - What operation fails if the value does not fit
+ * @param document - The document the value is on, for validators
+ * @returns the value, converted to fit the definition where possible
+ * @throws a `ValidationError` with every issue found within the value
+ */
+function checkValue(definition: SchemaDefinition, value: any, path: string[], what: string, document?: object): any {
+  const wrongType = () => new ValidationError({
+    what,
+    issues: [typeIssue(definition, value, path)]
+  })
+
+  if (!isFieldDefinition(definition)) {
+    if (!isObject(value)) throw wrongType()
+    checkAll(what, Object.keys(definition).map(key => () => {
+      const checked = checkValue(definition[key] as SchemaDefinition, value[key], [...path, key], what, document)
+      if (checked !== value[key]) value[key] = checked
+    }))
+    return value
+  }
+
+  if (typeof value === 'undefined' && definition._hasDefault) value = defaultFor(definition)
+
+  if (typeof value === 'undefined') {
+    if (definition.required) {
+      throw new ValidationError({
+        what,
+        issues: [requiredIssue(definition, path)]
+      })
+    }
+    return value
+  }
+
+  if (value === null) {
+    if (definition.required) throw wrongType()
+    return value
+  }
+
+  let doesMatch = true
+  switch (definition._fieldIdentifier) {
+    case FieldIdentifier.string:
+      // strings with the `trim` option are held trimmed
+      if (definition.trim && typeof value === 'string') value = value.trim()
+      doesMatch = typeof value === 'string'; break
+    case FieldIdentifier.number:
+      doesMatch = typeof value === 'number'; break
+    case FieldIdentifier.true:
+      doesMatch = value === true; break
+    case FieldIdentifier.boolean:
+      doesMatch = typeof value === 'boolean'; break
+    case FieldIdentifier.enum:
+      doesMatch = definition.vals.includes(value); break
+    case FieldIdentifier.timestamp:
+      // timestamps are held as `Date`s, but stored as epoch millis
+      if (typeof value === 'number') value = new Date(value)
+      doesMatch = value instanceof Date && !isNaN(value.getTime()); break
+    case FieldIdentifier.indexed:
+      if (!isObject(value)) throw wrongType()
+      try {
+        checkAll(what, Object.keys(value).map(key => () => {
+          if (typeof value[key] === 'undefined') return
+          const checked = checkValue(definition.indexed, value[key], [...path, key], what, document)
+          if (checked !== value[key]) value[key] = checked
+        }))
+      } catch (err) {
+        // an index of primitives is of the wrong type as a whole if any of its values are
+        const isPrimitiveIndex = !!definition.indexed._fieldIdentifier
+        if (isPrimitiveIndex && err.issues.some((issue: ValidationIssue) => issue.code === 'type')) throw wrongType()
+        throw err
+      }
+      break
+    case FieldIdentifier.array:
+      value = toArray(value)
+      if (!Array.isArray(value)) throw wrongType()
+      checkAll(what, value.map((element: any, index: number) => () => {
+        const checked = checkValue(definition.elements, element, [...path, String(index)], what, document)
+        if (checked !== element) value[index] = checked
+      }))
+      break
+    case FieldIdentifier.union:
+      if (!isObject(value)) throw wrongType()
+      const { discriminator, branches } = definition
+      // the discriminator is checked as an enum of the branches' keys
+      const discriminatorDefinition = enumr<string | number>(Object.keys(branches))
+      const discriminatorPath = [...path, discriminator]
+      if (typeof value[discriminator] === 'undefined') {
+        throw new ValidationError({ what, issues: [requiredIssue(discriminatorDefinition, discriminatorPath)] })
+      }
+      if (!Object.prototype.hasOwnProperty.call(branches, value[discriminator])) {
+        throw new ValidationError({ what, issues: [typeIssue(discriminatorDefinition, value[discriminator], discriminatorPath)] })
+      }
+      checkValue(branches[value[discriminator]], value, path, what, document)
+      break
+    case FieldIdentifier.json:
+      const jsonIssue = jsonViolation(value, path)
+      if (jsonIssue) throw new ValidationError({ what, issues: [jsonIssue] })
+      // the database doesn't store empty objects or arrays, so a required
+      //  value would be missing once saved (unless its default fills it in)
+      if (definition.required && !definition._hasDefault && typeof value === 'object' && !Object.keys(value).length) {
+        throw new ValidationError({
+          what,
+          issues: [{
+            path: path.join('.'),
+            code: 'json',
+            message: `The required property '${path.join('.')}' is empty, which the database does not store`,
+            expected: 'JSON',
+            received: `empty ${kindOf(value)}`
+          }]
+        })
+      }
+      break
+  }
+
+  if (!doesMatch) throw wrongType()
+
+  const violation = constraintViolation(definition, value, path, document)
+  if (violation) throw new ValidationError({ what, issues: [violation] })
+
+  return value
+}
+
+export default checkValue
@@ -0,0 +1,74 @@
+import { AnyFieldDefinition, FieldIdentifier, StringFormat } from '../../types/field.types'
+import { ValidationIssue, ValidationIssueCode } from '../../types/validation.types'
+import validatorFailure from './validatorFailure'
+
+const formats: { [F in StringFormat]: RegExp } = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  url: /^https?:\/\/[^\s/?#]+\.[^\s]*$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i,
+  slug: /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+}
+
+/**
+ * Find the first constraint of a field definition that a value
+ *  of the right type breaks, including its own `validate` check
+ *  (if that is synchronous)
+ * 
+ * @param definition - The field definition, with any constraints
+ * @param value - The value, which is already of the field's type
+ * @param path - The path to the value, for error messages
+ * @param document - The document the value is on
+ * @returns the issue with the value, or undefined if there is none
+ */
+function constraintViolation(definition: AnyFieldDefinition, value: any, path: string[], document?: object): ValidationIssue | undefined {
+  const issue = (code: ValidationIssueCode, breaks: string, expected: string, received: string): ValidationIssue => ({
+    path: path.join('.'),
+    code,
+    message: `The property '${path.join('.')}' ${breaks}`,
+    expected,
+    received
+  })
+
+  switch (definition._fieldIdentifier) {
+    case FieldIdentifier.string:
+      const { minLength, maxLength, pattern, format } = definition
+      if (typeof minLength === 'number' && value.length < minLength) {
+        return issue('minLength', `is shorter than its minLength of ${minLength}`, `at least ${minLength} characters`, `${value.length} characters`)
+      }
+      if (typeof maxLength === 'number' && value.length > maxLength) {
+        return issue('maxLength', `is longer than its maxLength of ${maxLength}`, `at most ${maxLength} characters`, `${value.length} characters`)
+      }
+      if (pattern instanceof RegExp && !new RegExp(pattern).test(value)) {
+        return issue('pattern', `does not match its pattern ${pattern}`, String(pattern), JSON.stringify(value))
+      }
+      if (format && !(formats[format as StringFormat] && formats[format as StringFormat].test(value))) {
+        return issue('format', `does not match its format '${format}'`, format, JSON.stringify(value))
+      }
+      break
+
+    case FieldIdentifier.number:
+      const { min, max, integer, finite, multipleOf } = definition
+      if (finite !== false && !Number.isFinite(value)) {
+        return issue('finite', 'is not a finite number, as required by its finite option', 'a finite number', String(value))
+      }
+      if (typeof min === 'number' && value < min) {
+        return issue('min', `is less than its min of ${min}`, `at least ${min}`, String(value))
+      }
+      if (typeof max === 'number' && value > max) {
+        return issue('max', `is greater than its max of ${max}`, `at most ${max}`, String(value))
+      }
+      if (integer && !Number.isInteger(value)) {
+        return issue('integer', 'is not an integer, as required by its integer option', 'an integer', String(value))
+      }
+      // allow for floating point error, e.g. with 0.3 as a multiple of 0.1
+      if (typeof multipleOf === 'number' && Math.abs(value / multipleOf - Math.round(value / multipleOf)) > 1e-9) {
+        return issue('multipleOf', `is not a multiple of ${multipleOf}, as required by its multipleOf option`, `a multiple of ${multipleOf}`, String(value))
+      }
+      break
+  }
+
+  if (value === null) return undefined
+  return validatorFailure(definition.validate, value, document, path)
+}
+
+export default constraintViolation
@@ -0,0 +1,66 @@
+import { ValidationIssue } from '../../types/validation.types'
+import { kindOf } from '../validation/issues'
+
+/**
+ * Whether the database allows a key: it can't be empty, or contain
+ *  any of `.`, `#`, `$`, `/`, `[` or `]`
+ *
+ * @param key - The key of an object
+ */
+const isDatabaseKey = (key: string): boolean => key.length > 0 && !/[.#$/[\]]/.test(key)
+
+/**
+ * Find the first part of a value which is not JSON-serialisable:
+ *  functions, non-finite numbers, instances of classes (e.g. `Date`s)
+ *  and `undefined` elements or properties are not. Nor are keys
+ *  which the database does not allow
+ * 
+ * @param value - The value of a JSON field
+ * @param path - The path to the value, for error messages
+ * @returns the issue with the value, or undefined if there is none
+ */
+function jsonViolation(value: any, path: string[]): ValidationIssue | undefined {
+  const isJson = value === null
+    || typeof value === 'string'
+    || typeof value === 'boolean'
+    || (typeof value === 'number' && Number.isFinite(value))
+    || Array.isArray(value)
+    || (typeof value === 'object' && [Object.prototype, null].includes(Object.getPrototypeOf(value)))
+
+  if (!isJson) {
+    return {
+      path: path.join('.'),
+      code: 'json',
+      message: `The property '${path.join('.')}' is not JSON-serialisable`,
+      expected: 'JSON',
+      received: typeof value === 'number' ? String(value) : kindOf(value)
+    }
+  }
+
+  if (value && typeof value === 'object') {
+    // `forEach` skips the holes of arrays from the database
+    let violation: ValidationIssue | undefined
+    const entries: Array<[string, any]> = []
+    if (Array.isArray(value)) {
+      value.forEach((element, index) => entries.push([String(index), element]))
+    } else {
+      const invalidKey = Object.keys(value).find(key => !isDatabaseKey(key))
+      if (typeof invalidKey !== 'undefined') {
+        return {
+          path: path.join('.'),
+          code: 'json',
+          message: `The property '${path.join('.')}' has the key ${JSON.stringify(invalidKey)}, which the database does not allow`,
+          expected: 'JSON with keys the database allows',
+          received: `key ${JSON.stringify(invalidKey)}`
+        }
+      }
+      Object.keys(value).forEach(key => entries.push([key, value[key]]))
+    }
+    entries.some(([key, child]) => !!(violation = jsonViolation(child, [...path, key])))
+    return violation
+  }
+
+  return undefined
+}
+
+export default jsonViolation
@@ -1,11 +1,11 @@
-import { get, set } from 'lodash'
 import { plural } from 'pluralize'
 import { ActiveDocument, ActiveClass } from "../../types/class.types";
 import { DocumentSchema, ToCreateDocument, ObjectFromDocument } from "../../types/schema.types";
-import checkPrimitive from './checkPrimitive';
+import checkDocument from './checkDocument';
 import withOnChangeListener from './withOnChangeListener';
 import setupSyncing from './setupSyncing';
 import ActiveClassError from '../Error/ActiveClassError';
+import prepareValue, { isPrepared } from './prepareValue';
 
 /**
  * Creates a constructor function for a `DocumentModel<Schema>`
@@ -26,45 +26,27 @@ const makeActiveClassConstructor = <Schema extends DocumentSchema>(
     props: ToCreateDocument<Schema> & { _id?: string } = {}
   ) {
     
+    // prepare creation props (e.g. coerce them), unless they come from the database
+    if (!isPrepared(props)) props = prepareValue(schema, { ...props })
+
     // assign initial props
     Object.assign(this, props)
 
     const document = this
 
-    const schemaFieldIdentified = (path: string[]) => get(schema, [...path, '_fieldIdentifier'])
-
-    /**
-     * Check whether the object conforms to the schema at a given path,
-     *  including iterating within child keys if it's an object at
-     *  that particular path
-     * 
-     * @param schemaKeyPath - The path from the object to the field
-     *  to be checked
-     */
-    const iterativelyCheckAgainstSchema = (schemaKeyPath: string[]) => {
-      if (schemaFieldIdentified(schemaKeyPath)) {
-        // @ts-ignore : infinitely deep :(
-        checkPrimitive.bind(this)({ schema, schemaKeyPath })
-      } else {
-        // probably an object
-        if (typeof get(this, schemaKeyPath) === 'undefined') {
-          // if it's undefined as a property, set it to empty object
-          set(this, schemaKeyPath, {})
-        }
-        // iteratively check keys
-        Object.keys(get(schema, schemaKeyPath)).forEach(childKey => {
-          iterativelyCheckAgainstSchema([...schemaKeyPath, childKey])
+    const checkAgainstSchema = (initialiseFromProps = false) => {
+      if (initialiseFromProps) {
+        Object.keys(schema).forEach(key => {
+          const schemaKey = key as keyof ObjectFromDocument<Schema>
+          // @ts-ignore : set it from props, if it exists there
+          document[schemaKey] = props[schemaKey]
         })
       }
-    }
-
-    const checkAgainstSchema = (initialiseFromProps = false) => {
-      Object.keys(schema).forEach(key => {
-        const schemaKey = key as keyof ObjectFromDocument<Schema>
-        // @ts-ignore : set it from props, if it exists there
-        if (initialiseFromProps) document[schemaKey] = props[schemaKey]
-
-        iterativelyCheckAgainstSchema([key])
+      // @ts-ignore
+      const { name, options } = document.constructor
+      checkDocument(document, schema, {
+        what: `Could not set or update ${name}`,
+        validate: (options || {}).validate
       })
     }
 
@@ -0,0 +1,138 @@
+import { isPlainObject } from 'lodash'
+import { AnyFieldDefinition, FieldIdentifier } from '../../types/field.types'
+import { SchemaDefinition } from '../../types/schema.types'
+import isFieldDefinition from '../../utils/isFieldDefinition'
+
+/**
+ * Convert a string to the type of a field with the `coerce` option,
+ *  where it represents a value of that type
+ * 
+ * @param definition - The field definition
+ * @param value - The string to convert
+ * @returns the converted value, or the string if it cannot be converted
+ */
+const coerceString = (definition: AnyFieldDefinition, value: string): any => {
+  switch (definition._fieldIdentifier) {
+    case FieldIdentifier.number:
+      return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value
+    case FieldIdentifier.boolean:
+      if (value === 'true' || value === '1') return true
+      if (value === 'false' || value === '0') return false
+      return value
+    case FieldIdentifier.timestamp:
+      const date = /^-?\d+$/.test(value) ? new Date(Number(value)) : new Date(value)
+      return isNaN(date.getTime()) ? value : date
+    default:
+      return value
+  }
+}
+
+/**
+ * Whether a value is of the type a field's `transform` is given
+ * 
+ * @param definition - The field definition
+ * @param value - The value to transform
+ */
+const isTransformable = (definition: AnyFieldDefinition, value: any): boolean => {
+  switch (definition._fieldIdentifier) {
+    case FieldIdentifier.string:
+      return typeof value === 'string'
+    case FieldIdentifier.number:
+      return typeof value === 'number'
+    case FieldIdentifier.boolean:
+    case FieldIdentifier.true:
+      return typeof value === 'boolean'
+    case FieldIdentifier.timestamp:
+      return value instanceof Date
+    case FieldIdentifier.enum:
+      return definition.vals.some(val => typeof val === typeof value)
+    case FieldIdentifier.json:
+      return true
+    default:
+      return false
+  }
+}
+
+// the values which are already prepared, such as those from the database
+const prepared = new WeakSet<object>()
+
+/**
+ * Mark values as already prepared (e.g. as they come from the
+ *  database), so that a document constructed from them does not
+ *  prepare them again
+ * 
+ * @param values - The values
+ * @returns the values
+ */
+export const markPrepared = <T extends object>(values: T): T => {
+  prepared.add(values)
+  return values
+}
+
+export const isPrepared = (values: object): boolean => prepared.has(values)
+
+/**
+ * Prepare an incoming value - given on creation, assigned, or in an
+ *  update - to be checked against a field definition or nested schema,
+ *  by converting epoch millis to `Date`s for timestamps, then applying
+ *  the field's `coerce`, `trim` and `transform` options. Nested objects
+ *  and arrays are prepared in place. Values already held are not
+ *  prepared again, so that each value is transformed once.
+ * 
+ * @param definition - The field definition or nested schema
+ * @param value - The value to prepare
+ * @returns the prepared value, or the value itself if nothing applies
+ */
+function prepareValue(definition: SchemaDefinition, value: any): any {
+  if (value === null || typeof value === 'undefined') return value
+
+  if (!isFieldDefinition(definition)) {
+    if (isPlainObject(value)) {
+      Object.keys(definition).forEach(key => {
+        const preparedVal = prepareValue(definition[key] as SchemaDefinition, value[key])
+        if (preparedVal !== value[key]) value[key] = preparedVal
+      })
+    }
+    return value
+  }
+
+  switch (definition._fieldIdentifier) {
+    case FieldIdentifier.array:
+      if (Array.isArray(value)) {
+        value.forEach((element, index) => {
+          const preparedVal = prepareValue(definition.elements, element)
+          if (preparedVal !== element) value[index] = preparedVal
+        })
+      }
+      return value
+    case FieldIdentifier.indexed:
+      if (isPlainObject(value)) {
+        Object.keys(value).forEach(key => {
+          const preparedVal = prepareValue(definition.indexed, value[key])
+          if (preparedVal !== value[key]) value[key] = preparedVal
+        })
+      }
+      return value
+    case FieldIdentifier.union:
+      const branch = isPlainObject(value) && definition.branches[value[definition.discriminator]]
+      return branch ? prepareValue(branch, value) : value
+  }
+
+  // timestamps are held as `Date`s, but stored as epoch millis
+  if (definition._fieldIdentifier === FieldIdentifier.timestamp && typeof value === 'number') {
+    value = new Date(value)
+  }
+
+  if ('coerce' in definition && definition.coerce && typeof value === 'string') value = coerceString(definition, value)
+
+  // strings with the `trim` option are held trimmed
+  if ('trim' in definition && definition.trim && typeof value === 'string') value = value.trim()
+
+  if (typeof definition.transform === 'function' && isTransformable(definition, value)) {
+    value = definition.transform(value)
+  }
+
+  return value
+}
+
+export default prepareValue
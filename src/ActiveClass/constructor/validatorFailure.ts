@@ -0,0 +1,52 @@
+import { ValidatorResult } from '../../types/field.types'
+import { ValidationIssue } from '../../types/validation.types'
+
+/**
+ * Describe the issue, if any, from a validator's result
+ * 
+ * @param result - What the validator returned
+ * @param path - The path to what was validated ([] for the whole document)
+ * @returns the issue, or undefined if the validation passed
+ */
+export const validatorIssue = (result: ValidatorResult, path: string[]): ValidationIssue | undefined => {
+  if (result !== false && typeof result !== 'string') return undefined
+
+  const subject = path.length > 0 ? `The property '${path.join('.')}'` : 'The document'
+  return {
+    path: path.join('.'),
+    code: 'validate',
+    message: result
+      ? `${subject} failed its validate check: ${result}`
+      : `${subject} failed its validate check`
+  }
+}
+
+/**
+ * Run a (synchronous) validator. One which returns a promise fails,
+ *  as asynchronous checks are given as `validateAsync`, to be awaited
+ *  before writes.
+ * 
+ * @param validate - The validator, if there is one
+ * @param value - The value to validate
+ * @param document - The document the value is on
+ * @param path - The path to the value ([] for the whole document)
+ * @returns the issue, or undefined if the validation passed
+ */
+function validatorFailure(
+  validate: Function | undefined,
+  value: any,
+  document: object | undefined,
+  path: string[]
+): ValidationIssue | undefined {
+  if (typeof validate !== 'function') return undefined
+
+  const result = validate(value, document)
+  if (result && typeof result.then === 'function') {
+    // the promise is not awaited, so its rejection would be unhandled
+    result.then(undefined, () => {})
+    return validatorIssue('returned a promise, so should be given as validateAsync', path)
+  }
+  return validatorIssue(result, path)
+}
+
+export default validatorFailure
@@ -4,7 +4,12 @@ import onChange from 'on-change'
 import { ActiveDocument } from '../../types/class.types'
 import { DocumentSchema } from '../../types/schema.types'
 import ActiveClassError from '../Error/ActiveClassError'
+import fieldDefinitionAt from '../../utils/fieldDefinitionAt'
+import toDatabaseValue from '../../utils/toDatabaseValue'
+import { ServerTimestamp } from '../../Schema/timestamp.schema'
 import { FieldIdentifier } from '../../types/field.types'
+import { isPersisted, readonlyChange, readonlyError } from '../readonly/readonly'
+import prepareValue from './prepareValue'
 
 interface KWArgs<Schema extends DocumentSchema> {
   document: ActiveDocument<Schema>,
@@ -16,6 +21,7 @@ interface KWArgs<Schema extends DocumentSchema> {
  * Return a proxied version of the document which:
  *  (a) checks a property change against the schema
  *        and throws an error if it is inconsistent
+ *        (or if it changes a readonly field of a saved document)
  *  (b) if the document's syncOpts are set to sync to db,
  *        syncs to the database on every property set 
  * 
@@ -37,24 +43,50 @@ function withOnChangeListener<Schema extends DocumentSchema>({
     // this will throw an error for incompatible values
 
     const pathArr = path.split('.')
+    const definition = fieldDefinitionAt(document.constructor.schema, pathArr)
+    const jsonIndex = pathArr.findIndex((_, index) => (
+      get(fieldDefinitionAt(document.constructor.schema, pathArr.slice(0, index + 1)), '_fieldIdentifier') === FieldIdentifier.json
+    ))
 
-    // @ts-ignore
-    const existsOnSchemaDirectly: boolean = !!get(document.constructor.schema, pathArr)
-    // @ts-ignore
-    const ancestorIsAnIndex: boolean = get(document.constructor.schema, [...pathArr.slice(0, -1), '_fieldIdentifier']) === FieldIdentifier.indexed
+    // prepare the value assigned (e.g. coerce it) - but not a value within
+    //  a JSON field, as the field's options apply to its value as a whole
+    let preparedVal = val
+    if (definition && (jsonIndex === -1 || jsonIndex === pathArr.length - 1)) {
+      preparedVal = prepareValue(definition, val)
+      if (preparedVal !== val) set(document, pathArr, preparedVal)
+    }
+
+    const readonlyPath = isPersisted(document)
+      ? readonlyChange(document.constructor.schema, pathArr, preparedVal, prevVal)
+      : undefined
+    if (readonlyPath) {
+      // revert on the unproxied document, since reverting is itself a change
+      if (typeof prevVal === 'undefined') {
+        unset(document, pathArr)
+      } else {
+        set(document, pathArr, prevVal)
+      }
+      throw readonlyError(
+        `${this.constructor.name} could not accept the value ${JSON.stringify(val)} (${typeof val}) at path '${path}'`,
+        readonlyPath,
+        this.constructor.name
+      )
+    }
 
-    const shouldCheck = existsOnSchemaDirectly || ancestorIsAnIndex
+    // the path is in the schema directly, or within an index or array
+    const shouldCheck = !!definition
 
     try {
       if (shouldCheck) {
         checkAgainstSchema()
       }
     } catch (err) {
-      // revert to previous value
-      if (prevVal === 'undefined') {
-        unset(this, path)
+      // revert to previous value, on the unproxied document so that
+      //  reverting doesn't set off this listener again
+      if (typeof prevVal === 'undefined') {
+        unset(document, pathArr)
       } else {
-        set(this, path, prevVal)
+        set(document, pathArr, prevVal)
       }
 
       throw ActiveClassError.from(err, {
@@ -64,16 +96,32 @@ function withOnChangeListener<Schema extends DocumentSchema>({
 
     if (shouldCheck && document.syncOpts().toDb) {
       let ref: firebase.database.Reference = document.ref()
-      const propPath = path.replace(/\./g, '/')
-      // to remove undefined properties: https://stackoverflow.com/questions/34708566/firebase-update-failed-first-argument-contains-undefined-in-property
-      const valToUpdate = JSON.parse(JSON.stringify(val))
+      // changes within a JSON field sync the field as a whole
+      const syncPathArr = jsonIndex === -1 ? pathArr : pathArr.slice(0, jsonIndex + 1)
+      const propPath = syncPathArr.join('/')
+      // sync the value as checked, e.g. with strings trimmed
+      const checkedVal = toDatabaseValue(path ? get(document as object, syncPathArr) : preparedVal)
+      // the database refuses undefined, but removes a value set to null
+      const valToUpdate = typeof checkedVal === 'undefined' ? null : checkedVal
       if (propPath) {
         ref = ref.child(propPath)
       }
       ref.once('value', snapshot => {
         const presentVal = snapshot.val()
         if (!equals(valToUpdate, presentVal)) {
-          const promiseToDb = ref.set(valToUpdate)
+          // @ts-ignore
+          const bumpsUpdatedAt: boolean = !!document.constructor.options.timestamps && pathArr[0] !== 'updatedAt'
+          let promiseToDb: Promise<any>
+          if (bumpsUpdatedAt) {
+            const updatedAt = new ServerTimestamp()
+            set(document, 'updatedAt', updatedAt)
+            promiseToDb = document.ref().update({
+              [propPath]: valToUpdate,
+              updatedAt: toDatabaseValue(updatedAt)
+            })
+          } else {
+            promiseToDb = ref.set(valToUpdate)
+          }
           pendingSetters.push(promiseToDb)
           promiseToDb.then(() => {
             remove(pendingSetters, identical(promiseToDb))
@@ -0,0 +1,56 @@
+import { ActiveClass } from '../../types/class.types'
+import { AnyFieldDefinition, FieldDefinition, FieldIdentifier } from '../../types/field.types'
+import ActiveClassError from '../Error/ActiveClassError'
+import fieldDefinitionAt from '../../utils/fieldDefinitionAt'
+import { readonlyError } from '../readonly/readonly'
+
+/**
+ * Whether a number field has bounds that an increment could break,
+ *  so that the incremented value must be checked before it's written
+ *
+ * @param definition - The definition of the number field
+ */
+export const isBounded = (definition: FieldDefinition<number>): boolean => (
+  [definition.min, definition.max, definition.multipleOf].some(bound => typeof bound === 'number')
+)
+
+/**
+ * Check that a field of an `ActiveClass`'s documents can be incremented
+ *  by a delta: it must be a number field, and not a readonly one, the
+ *  delta must be a finite number, and an integer field can only be
+ *  incremented by an integer
+ *
+ * @param ActiveClass - The `ActiveClass` whose documents are incremented
+ * @param path - The path to the field, e.g. 'stats.wins'
+ * @param delta - The amount to increment by
+ * @returns the definition of the field
+ * @throws an `ActiveClassError` if the field can't be incremented
+ */
+function checkIncrement(ActiveClass: ActiveClass<any>, path: string, delta: number): FieldDefinition<number> {
+  const what = `Could not increment ${ActiveClass.name}`
+  const definition: AnyFieldDefinition | undefined = fieldDefinitionAt(ActiveClass.schema, path)
+  if (!definition || definition._fieldIdentifier !== FieldIdentifier.number) {
+    throw new ActiveClassError({
+      what,
+      why: `The property '${path}' is not a number field`
+    })
+  }
+  if (definition.readonly) {
+    throw readonlyError(what, path, ActiveClass.name)
+  }
+  if (typeof delta !== 'number' || !Number.isFinite(delta)) {
+    throw new ActiveClassError({
+      what,
+      why: `The property '${path}' can only be incremented by a finite number, not ${delta}`
+    })
+  }
+  if (definition.integer && !Number.isInteger(delta)) {
+    throw new ActiveClassError({
+      what,
+      why: `The property '${path}' is an integer field, so cannot be incremented by ${delta}`
+    })
+  }
+  return definition
+}
+
+export default checkIncrement
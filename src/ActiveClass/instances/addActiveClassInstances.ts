@@ -2,7 +2,20 @@ import { ActiveClass } from "../../types/class.types";
 import { DocumentSchema, ObjectFromDocument } from "../../types/schema.types";
 import isNull from "../../utils/isNull";
 import { SyncOpts } from "../../types/sync.types";
+import { get, set } from "lodash";
+import onChange from "on-change";
 import ActiveClassError from "../Error";
+import runTransaction from "../transaction/runTransaction";
+import runValidators from "../validation/runValidators";
+import toDatabaseValue from "../../utils/toDatabaseValue";
+import resolveServerTimestamps from "../../utils/resolveServerTimestamps";
+import withoutHiddenFields from "../../utils/withoutHiddenFields";
+import { ServerTimestamp } from "../../Schema/timestamp.schema";
+import { retrieve } from "../relations/relations";
+import { isPersisted, markPersisted } from "../readonly/readonly";
+import assignFromDatabase from "../constructor/assignFromDatabase";
+import checkIncrement from "../increment/checkIncrement";
+import constraintViolation from "../constructor/constraintViolation";
 
 /**
  * Adds default instance methods and properties onto the `ActiveClass`'s prototype
@@ -26,11 +39,43 @@ const addActiveClassInstances = <Schema extends DocumentSchema>(
     }
   }
 
+  ActiveClass.prototype.increment = async function (path: string, delta: number = 1): Promise<void> {
+    // refuse before guessing the value
+    if (!isPersisted(this)) {
+      // `getId` would make up an id, with no document at it
+      throw new ActiveClassError({
+        what: `Could not increment ${this.constructor.name}`,
+        why: `The ${this.constructor.name} has not been saved to the database`
+      })
+    }
+    const definition = checkIncrement(this.constructor, path, delta)
+    // guess from the value before the write, as a transaction applies to the
+    //  local cache - and so to a document syncing from it - straight away
+    const target = onChange.target(this)
+    const before = get(target, path)
+    const isGuessed = typeof before === 'number'
+      && !constraintViolation(definition, before + delta, path.split('.'), this)
+    const written = this.constructor.increment(this.getId(), path, delta)
+    // update optimistically, without syncing the guess to the database -
+    //  unless the guess breaks a constraint, when the increment will fail
+    if (isGuessed) set(target, path, before + delta)
+    try {
+      await written
+    } catch (err) {
+      if (isGuessed) set(target, path, before)
+      throw err
+    }
+  }
+
+  ActiveClass.prototype.decrement = function (path: string, delta: number = 1): Promise<void> {
+    return this.increment(path, -delta)
+  }
+
   ActiveClass.prototype.reload = async function (): Promise<ObjectFromDocument<Schema>> {
     if (!this._id) throw new Error(`Can't reload a ${this.constructor.name} from the database without it having an id`)
     const snapshot = await this.ref().once('value')
     const vals = snapshot.val()
-    Object.assign(this, vals)
+    assignFromDatabase(this, vals, `Could not reload ${this.constructor.name}`)
     return vals
   };
 
@@ -42,9 +87,21 @@ const addActiveClassInstances = <Schema extends DocumentSchema>(
   }
 
   ActiveClass.prototype.save = async function(): Promise<ObjectFromDocument<Schema>> {
-    const valsToSet = this.toObject()
     try {
-      await this.ref().set(valsToSet)
+      await runValidators(this)
+    } catch (err) {
+      throw ActiveClassError.from(err, { what: `Failed to save ${this.constructor.name} into database` })
+    }
+    if (this.constructor.options.timestamps) {
+      // set without syncing, as it is saved below
+      set(onChange.target(this), 'updatedAt', new ServerTimestamp())
+    }
+    const valsToSet = this.toObject({ includeHidden: true })
+    try {
+      await this.ref().set(toDatabaseValue(valsToSet))
+      markPersisted(this)
+      // e.g. so that `createdAt` isn't set to the server time again on the next save
+      await resolveServerTimestamps(this)
       return valsToSet
     } catch (err) {
       throw ActiveClassError.from(err, { what: `Failed to save ${this.constructor.name} into database` })
@@ -57,13 +114,55 @@ const addActiveClassInstances = <Schema extends DocumentSchema>(
     return setVals
   };
 
-  ActiveClass.prototype.toObject = function(): ObjectFromDocument<Schema> {
-    return [...Object.keys(scoped.schema), "_id"].reduce((acc, key) => {
+  ActiveClass.prototype.transaction = async function (mutator): Promise<ObjectFromDocument<Schema> | null> {
+    const values = await runTransaction(this.constructor, this.getId(), mutator)
+    if (values) {
+      // the values are already in the database, so don't sync them back
+      const { toDb } = this.syncOpts()
+      this.syncOpts({ toDb: false })
+      Object.assign(this, values)
+      this.syncOpts({ toDb })
+    }
+    return values
+  }
+
+  // @ts-ignore : overloaded on whether to include hidden fields
+  ActiveClass.prototype.toObject = function({ includeHidden = false } = {}): ObjectFromDocument<Schema> {
+    const values = [...Object.keys(scoped.schema), "_id"].reduce((acc, key) => {
       // @ts-ignore
       if (typeof this[key] !== 'undefined') acc[key] = this[key]
       return acc
     }, {}) as ObjectFromDocument<Schema>
+    return includeHidden ? values : withoutHiddenFields(scoped.schema, values)
+  }
+
+  ActiveClass.prototype.toJSON = function () {
+    return this.toObject()
   }
+
+  // each `Schema.ref` field adds an accessor for the document it refers to
+  Object.keys(scoped.schema).forEach(key => {
+    const definition: any = scoped.schema[key]
+    if (!definition || !definition.ref) return
+
+    const accessor: string = definition.as || key.replace(/Id$/, '')
+    if (accessor === key || !accessor || accessor in ActiveClass.prototype || accessor in scoped.schema) {
+      throw new ActiveClassError({
+        what: `Could not add an accessor for the ref field '${key}'`,
+        why: definition.as
+          ? `'${accessor}' is already a property of the documents`
+          : `Give the field an 'as' option to name its accessor`
+      })
+    }
+
+    // @ts-ignore : accessors are typed from the schema
+    ActiveClass.prototype[accessor] = async function () {
+      // @ts-ignore : the field holds an `_id`
+      const id = this[key]
+      if (typeof id !== 'string') return null
+      return retrieve<ActiveClass>(definition.ref).findById(id)
+    }
+  })
 }
 
 export default addActiveClassInstances
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { equals } from 'ramda'
+import { ActiveClass } from '../../types/class.types'
+import { DocumentSchema, ObjectFromDocument } from '../../types/schema.types'
+import { ActiveQuery, QueryValue, WhereOperator } from '../../types/query.types'
+import ActiveClassError from '../Error/ActiveClassError'
+import snapshotValues from './snapshotValues'
+import toDatabaseValue from '../../utils/toDatabaseValue'
+
+type Order = { by: 'child', field: string } | { by: 'key' } | { by: 'value' }
+
+interface Bound {
+  value: QueryValue,
+  key?: string,
+  // the `where` clause which set the bound, if any
+  where?: { field: string, operator: WhereOperator }
+}
+
+interface Limit {
+  count: number,
+  toLast: boolean
+}
+
+const compare = (operator: WhereOperator, a: any, b: any): boolean => {
+  switch (operator) {
+    case '==': return equals(a, b)
+    case '>': return a > b
+    case '>=': return a >= b
+    case '<': return a < b
+    case '<=': return a <= b
+  }
+}
+
+/**
+ * Create an `ActiveQuery` on the table of an `ActiveClass`
+ *
+ * @param ActiveClass - The `ActiveClass` whose table is queried
+ */
+function createQuery<Schema extends DocumentSchema, Instance>(
+  ActiveClass: ActiveClass<Schema>
+): ActiveQuery<Schema, Instance> {
+  let order: Order | null = null
+  let start: Bound | null = null
+  let end: Bound | null = null
+  let equal: Bound | null = null
+  let limit: Limit | null = null
+
+  // checks that the server can't do for us
+  const clientFilters: Array<(document: ObjectFromDocument<Schema>) => boolean> = []
+
+  // the server can only limit the query before the client filters it,
+  //  which may leave out documents that match - so it's left to the client
+  const isLimitedByServer = () => !!limit && !clientFilters.length
+
+  const isOrderedBy = (field: string) => !!order && order.by === 'child' && order.field === field
+
+  /**
+   * Change the order of the query, checking any bound set by a `where`
+   *  on the previously ordered field on the client instead, since the
+   *  server can only bound the field it orders by
+   */
+  const reorder = (newOrder: Order) => {
+    order = newOrder
+    const release = (bound: Bound | null): Bound | null => {
+      if (!bound || !bound.where || isOrderedBy(bound.where.field)) return bound
+      const { field, operator } = bound.where
+      // strict comparisons are already checked on the client
+      if (operator !== '>' && operator !== '<') {
+        clientFilters.push(document => compare(operator, document[field as keyof ObjectFromDocument<Schema>], bound.value))
+      }
+      return null
+    }
+    start = release(start)
+    end = release(end)
+    equal = release(equal)
+  }
+
+  const query: ActiveQuery<Schema, Instance> = {
+    where(field, operator, documentValue) {
+      const fieldName = String(field)
+      // compare against the value as it is stored, e.g. timestamps as millis
+      const value = toDatabaseValue(documentValue)
+      if (!order) order = { by: 'child', field: fieldName }
+
+      // the server takes a single start and end, or an equal with neither,
+      //  so a clause which would replace or clash with those is checked on the client
+      const isBoundByServer = isOrderedBy(fieldName) && (
+        operator === '==' ? !equal && !start && !end
+          : operator === '>' || operator === '>=' ? !start && !equal
+          : !end && !equal
+      )
+
+      if (isBoundByServer) {
+        const bound = { value: value as unknown as QueryValue, where: { field: fieldName, operator } }
+        if (operator === '==') equal = bound
+        if (operator === '>' || operator === '>=') start = bound
+        if (operator === '<' || operator === '<=') end = bound
+      }
+
+      if (!isBoundByServer || operator === '>' || operator === '<') {
+        clientFilters.push(document => compare(operator, document[field], value))
+      }
+
+      return query
+    },
+
+    orderBy(field) {
+      reorder({ by: 'child', field: String(field) })
+      return query
+    },
+
+    orderByKey() {
+      reorder({ by: 'key' })
+      return query
+    },
+
+    orderByValue() {
+      reorder({ by: 'value' })
+      return query
+    },
+
+    startAt(value, key) {
+      start = { value, key }
+      return query
+    },
+
+    endAt(value, key) {
+      end = { value, key }
+      return query
+    },
+
+    equalTo(value, key) {
+      equal = { value, key }
+      return query
+    },
+
+    limit(count) {
+      limit = { count, toLast: false }
+      return query
+    },
+
+    limitToLast(count) {
+      limit = { count, toLast: true }
+      return query
+    },
+
+    ref() {
+      try {
+        let ref: firebase.database.Query = ActiveClass.ref()
+        if (order) {
+          ref = order.by === 'child' ? ref.orderByChild(order.field)
+            : order.by === 'key' ? ref.orderByKey()
+            : ref.orderByValue()
+        }
+        if (equal) ref = ref.equalTo(equal.value, equal.key)
+        if (start) ref = ref.startAt(start.value, start.key)
+        if (end) ref = ref.endAt(end.value, end.key)
+        if (limit && isLimitedByServer()) {
+          ref = limit.toLast
+            ? ref.limitToLast(limit.count)
+            : ref.limitToFirst(limit.count)
+        }
+        return ref
+      } catch (err) {
+        throw ActiveClassError.from(err, {
+          what: `Could not query ${ActiveClass.name}`
+        })
+      }
+    },
+
+    matches(values) {
+      return clientFilters.every(filter => filter(values))
+    },
+
+    limitMatching(matching) {
+      if (!limit || isLimitedByServer()) return matching
+      return limit.toLast
+        ? matching.slice(Math.max(matching.length - limit.count, 0))
+        : matching.slice(0, limit.count)
+    },
+
+    async values() {
+      const snapshot = await query.ref().once('value')
+      const values: ObjectFromDocument<Schema>[] = snapshotValues(snapshot)
+      return query.limitMatching(values.filter(query.matches))
+    },
+
+    async get() {
+      const values = await query.values()
+      // @ts-ignore : inheritance
+      return values.map(props => ActiveClass.from(props) as Instance)
+    },
+
+    then(onfulfilled, onrejected) {
+      return query.get().then(onfulfilled, onrejected)
+    }
+  }
+
+  return query
+}
+
+export default createQuery
@@ -0,0 +1,34 @@
+import { QueryValue } from '../../types/query.types'
+import ActiveClassError from '../Error/ActiveClassError'
+
+interface Cursor {
+  value: QueryValue,
+  _id: string
+}
+
+/**
+ * Encode the position of a document in an ordered table, using
+ *  both its order value and its `_id` so that ties stay stable
+ *
+ * @param cursor - the order value and `_id` of the document
+ * @returns an opaque cursor string
+ */
+export const encodeCursor = ({ value, _id }: Cursor): string => JSON.stringify([value, _id])
+
+/**
+ * Decode a cursor made by `encodeCursor`
+ *
+ * @param cursor - an opaque cursor string
+ * @returns the order value and `_id` of the document
+ */
+export const decodeCursor = (cursor: string): Cursor => {
+  try {
+    const [value, _id] = JSON.parse(cursor)
+    if (typeof _id !== 'string') throw new Error(`The cursor '${cursor}' has no _id`)
+    return { value, _id }
+  } catch (err) {
+    throw ActiveClassError.from(err, {
+      what: 'Could not read the pagination cursor'
+    })
+  }
+}
@@ -0,0 +1,69 @@
+import { equals } from 'ramda'
+import ActiveClassError from '../Error/ActiveClassError'
+
+type Operators = { [operator: string]: any }
+
+const isSet = (value: unknown) => typeof value !== 'undefined' && value !== null
+
+/**
+ * Whether a match condition is an object of operators, e.g. `{ $gte: 18 }`,
+ *  rather than a value to match exactly. Firebase keys can't contain `$`,
+ *  so no stored object can be mistaken for one.
+ *
+ * @param condition - the condition for a field in some match props
+ */
+export const isOperators = (condition: unknown): condition is Operators => (
+  !!condition &&
+  typeof condition === 'object' &&
+  !Array.isArray(condition) &&
+  Object.keys(condition as object).length > 0 &&
+  Object.keys(condition as object).every(key => key.startsWith('$'))
+)
+
+const matchesOperator = (operator: string, operand: any, value: any): boolean => {
+  switch (operator) {
+    case '$eq': return equals(value, operand)
+    case '$ne': return !equals(value, operand)
+    case '$in': return (operand as any[]).some(option => equals(value, option))
+    case '$nin': return !(operand as any[]).some(option => equals(value, option))
+    case '$exists': return isSet(value) === operand
+    case '$gt': return isSet(value) && value > operand
+    case '$gte': return isSet(value) && value >= operand
+    case '$lt': return isSet(value) && value < operand
+    case '$lte': return isSet(value) && value <= operand
+    case '$contains': return typeof value === 'string' && value.includes(operand)
+    case '$has': return isSet(value) && typeof value === 'object' && isSet(value[operand])
+    default:
+      throw new ActiveClassError({
+        what: 'Could not match documents',
+        why: `The operator '${operator}' is not supported`
+      })
+  }
+}
+
+/**
+ * Whether a single field's value meets its match condition
+ *
+ * @param condition - an exact value, or an object of operators
+ * @param value - the field's value on a document
+ */
+export const matchesCondition = (condition: unknown, value: unknown): boolean => (
+  isOperators(condition)
+    ? Object.keys(condition).every(operator => matchesOperator(operator, condition[operator], value))
+    : equals(condition, value)
+)
+
+/**
+ * Create a predicate for whether a document meets every condition
+ *  in some match props
+ *
+ * @param props - match props, of exact values and/or operator objects
+ */
+const matchesProps = (props: object) => (document: object): boolean => (
+  Object.keys(props).every(key => matchesCondition(
+    props[key as keyof typeof props],
+    document[key as keyof typeof document]
+  ))
+)
+
+export default matchesProps
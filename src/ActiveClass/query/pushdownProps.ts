@@ -0,0 +1,87 @@
+import { omit } from 'lodash'
+import { isOperators } from './matchesProps'
+
+type Pushable = string | number | boolean
+
+interface Pushdown<P> {
+  /**
+   * The Firebase query that the server can filter by, or `null`
+   *  if none of the props could be turned into a query
+   */
+  query: firebase.database.Query | null,
+
+  /**
+   * The props which the query does not account for, and which
+   *  still need to be matched on the client
+   */
+  leftover: Partial<P>
+}
+
+const isPushable = (value: unknown): value is Pushable => (
+  typeof value === 'string' ||
+  typeof value === 'number' ||
+  typeof value === 'boolean'
+)
+
+const RANGE_OPERATORS = ['$gt', '$gte', '$lt', '$lte']
+
+/**
+ * Whether a condition can be run by the server as an `equalTo`
+ */
+const isEquality = (condition: unknown): boolean => (
+  isPushable(condition) ||
+  (isOperators(condition) && Object.keys(condition).length === 1 && isPushable(condition.$eq))
+)
+
+/**
+ * Whether a condition can be narrowed by the server with `startAt`/`endAt`
+ */
+const isRange = (condition: unknown): boolean => (
+  isOperators(condition) &&
+  Object.keys(condition).every(operator => RANGE_OPERATORS.includes(operator) && isPushable(condition[operator]))
+)
+
+/**
+ * Turn the match condition on a single top-level field of `props`
+ *  into a query on `tableRef`, so that the server only sends back
+ *  the candidate documents:
+ *  - an exact match becomes `orderByChild(field).equalTo(value)`
+ *  - a range of `$gt`, `$gte`, `$lt` and `$lte` becomes
+ *    `orderByChild(field).startAt(lower).endAt(upper)`
+ *
+ * Firebase only lets a query order by a single child, so only one
+ *  field is pushed down - the rest are left over for client-side
+ *  filtering. Ranges are also left over, as Firebase's bounds are
+ *  inclusive and it orders values of different types together.
+ *
+ * @param tableRef - The `Reference` for the table being queried
+ * @param props - Match props
+ */
+function pushdownProps<P extends object>(tableRef: firebase.database.Reference, props: P): Pushdown<P> {
+  const conditionAt = (key: string): any => props[key as keyof P]
+
+  const equalityField = Object.keys(props).find(key => isEquality(conditionAt(key)))
+  if (typeof equalityField !== 'undefined') {
+    const condition = conditionAt(equalityField)
+    const value: Pushable = isOperators(condition) ? condition.$eq : condition
+    return {
+      query: tableRef.orderByChild(equalityField).equalTo(value),
+      leftover: omit(props, equalityField) as Partial<P>
+    }
+  }
+
+  const rangeField = Object.keys(props).find(key => isRange(conditionAt(key)))
+  if (typeof rangeField !== 'undefined') {
+    const { $gt, $gte, $lt, $lte } = conditionAt(rangeField)
+    const lower = typeof $gte !== 'undefined' ? $gte : $gt
+    const upper = typeof $lte !== 'undefined' ? $lte : $lt
+    let query = tableRef.orderByChild(rangeField)
+    if (typeof lower !== 'undefined') query = query.startAt(lower)
+    if (typeof upper !== 'undefined') query = query.endAt(upper)
+    return { query, leftover: props }
+  }
+
+  return { query: null, leftover: props }
+}
+
+export default pushdownProps
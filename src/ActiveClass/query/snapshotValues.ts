@@ -0,0 +1,15 @@
+/**
+ * Collect the values of a snapshot's children, in the
+ *  order that the (possibly ordered) query returned them
+ * 
+ * @param snapshot - A snapshot of a table or query
+ */
+function snapshotValues<T = any>(snapshot: firebase.database.DataSnapshot): T[] {
+  const values: T[] = []
+  snapshot.forEach(child => {
+    values.push(child.val())
+  })
+  return values
+}
+
+export default snapshotValues
@@ -0,0 +1,166 @@
+import { ActiveClass, ActiveDocument } from '../../types/class.types'
+import { DocumentSchema, ObjectFromDocument, ToCreateDocument } from '../../types/schema.types'
+import { WatchCallback, WatchChange } from '../../types/query.types'
+import assignFromDatabase from '../constructor/assignFromDatabase'
+import { markPrepared } from '../constructor/prepareValue'
+import { markPersisted } from '../readonly/readonly'
+
+interface Watched<Schema extends DocumentSchema> {
+  /**
+   * The Firebase query to listen to
+   */
+  ref: firebase.database.Query,
+
+  /**
+   * Whether a document's values pass the checks made on the client
+   */
+  matches(values: ObjectFromDocument<Schema>): boolean,
+
+  /**
+   * Limit the documents which match, if the server could not
+   */
+  limitMatching?<T>(matching: T[]): T[]
+}
+
+/**
+ * Listen to the children of a Firebase query, calling back with the
+ *  `ActiveDocument`s that match - first with the initial results, and
+ *  then again with every document that is added, changed or removed.
+ *
+ * The documents sync to the database, and are kept up to date from it
+ *  by the listeners here, until they are removed from the results or
+ *  watching stops.
+ *  Children whose values don't fit the schema are left out of them.
+ *
+ * @param ActiveClass - The `ActiveClass` whose table is watched
+ * @param watched - The query to listen to and the client-side checks
+ * @param callback - Called with the results and the latest change
+ * @returns a function which stops watching
+ */
+function watchQuery<Schema extends DocumentSchema, Instance extends ActiveDocument<Schema>>(
+  ActiveClass: ActiveClass<Schema>,
+  { ref, matches, limitMatching = matching => matching }: Watched<Schema>,
+  callback: WatchCallback<Instance>
+): () => void {
+  // keys of every child in the query, in query order
+  const order: string[] = []
+  // the documents of the children which match
+  const documents = new Map<string, Instance>()
+  let hasLoaded = false
+  let isWatching = true
+
+  // the results last called back with
+  let latest: Instance[] = []
+
+  const results = () => limitMatching(order
+    .filter(key => documents.has(key))
+    .map(key => documents.get(key) as Instance))
+
+  const notify = (change: WatchChange<Instance>) => {
+    if (!hasLoaded || !isWatching) return
+    const previous = latest
+    latest = results()
+    // changes to documents outside of a limit, in or out, don't change the results
+    if (latest.includes(change.document) || previous.includes(change.document)) {
+      callback(latest, change)
+    }
+  }
+
+  const place = (key: string, prevKey?: string | null) => {
+    const index = order.indexOf(key)
+    if (index !== -1) order.splice(index, 1)
+    order.splice(prevKey ? order.indexOf(prevKey) + 1 : 0, 0, key)
+  }
+
+  const add = (key: string, values: ToCreateDocument<Schema>) => {
+    let document: Instance
+    try {
+      document = new ActiveClass(markPrepared({ ...values })) as Instance
+    } catch (err) {
+      // leave out values which don't fit the schema, rather than throw within Firebase's listener
+      return
+    }
+    // this watcher keeps the document up to date from the database
+    document.syncOpts({ toDb: true })
+    markPersisted(document)
+    documents.set(key, document)
+    notify({ type: 'added', document })
+  }
+
+  const remove = (key: string) => {
+    const document = documents.get(key)
+    if (document) {
+      documents.delete(key)
+      document.syncOpts({ toDb: false })
+      notify({ type: 'removed', document })
+    }
+  }
+
+  const onAdded = (snapshot: firebase.database.DataSnapshot, prevKey?: string | null) => {
+    const key = snapshot.key as string
+    place(key, prevKey)
+    if (matches(snapshot.val())) add(key, snapshot.val())
+  }
+
+  const onChanged = (snapshot: firebase.database.DataSnapshot) => {
+    const key = snapshot.key as string
+    const values = snapshot.val()
+    const document = documents.get(key)
+
+    if (!matches(values)) {
+      remove(key)
+    } else if (!document) {
+      add(key, values)
+    } else {
+      try {
+        assignFromDatabase(document, values, `Could not update ${ActiveClass.name}`)
+      } catch (err) {
+        // the document no longer fits the schema
+        remove(key)
+        return
+      }
+      notify({ type: 'changed', document })
+    }
+  }
+
+  const onRemoved = (snapshot: firebase.database.DataSnapshot) => {
+    const key = snapshot.key as string
+    remove(key)
+    order.splice(order.indexOf(key), 1)
+  }
+
+  const onMoved = (snapshot: firebase.database.DataSnapshot, prevKey?: string | null) => {
+    const key = snapshot.key as string
+    place(key, prevKey)
+    // a change which moves a document follows its 'changed' call back,
+    //  and can move it into or out of a limit
+    const document = documents.get(key)
+    const moved = results()
+    if (document && (moved.length !== latest.length || moved.some((doc, idx) => doc !== latest[idx]))) {
+      notify({ type: 'changed', document })
+    }
+  }
+
+  ref.on('child_added', onAdded)
+  ref.on('child_changed', onChanged)
+  ref.on('child_removed', onRemoved)
+  ref.on('child_moved', onMoved)
+
+  // 'value' fires once all of the initial children have been added
+  ref.once('value', () => {
+    hasLoaded = true
+    latest = results()
+    if (isWatching) callback(latest)
+  })
+
+  return () => {
+    isWatching = false
+    documents.forEach(document => document.syncOpts({ toDb: false }))
+    ref.off('child_added', onAdded)
+    ref.off('child_changed', onChanged)
+    ref.off('child_removed', onRemoved)
+    ref.off('child_moved', onMoved)
+  }
+}
+
+export default watchQuery
@@ -0,0 +1,103 @@
+import onChange from 'on-change'
+import { equals } from 'ramda'
+import { SchemaDefinition } from '../../types/schema.types'
+import fieldDefinitionAt from '../../utils/fieldDefinitionAt'
+import isFieldDefinition from '../../utils/isFieldDefinition'
+import toDatabaseValue from '../../utils/toDatabaseValue'
+import ActiveClassError from '../Error/ActiveClassError'
+
+// the (unproxied) documents which have been saved to, or come from, the database
+const persisted = new WeakSet<object>()
+
+export const markPersisted = (document: object): void => {
+  persisted.add(onChange.target(document))
+}
+
+export const isPersisted = (document: object): boolean => (
+  persisted.has(onChange.target(document))
+)
+
+/**
+ * The error for a change to a readonly field of a saved document
+ *
+ * @param what - What operation failed
+ * @param path - The path of the readonly field
+ * @param className - The name of the document's `ActiveClass`
+ */
+export const readonlyError = (what: string, path: string, className: string): ActiveClassError => (
+  new ActiveClassError({
+    what,
+    why: `The property '${path}' is readonly, so cannot be changed once the ${className} is saved`
+  })
+)
+
+/**
+ * Whether a field definition, or any field of a nested schema, is readonly
+ *
+ * @param definition - The field definition or nested schema
+ */
+const hasReadonlyField = (definition: SchemaDefinition | undefined): boolean => {
+  if (!definition || typeof definition !== 'object') return false
+  if (isFieldDefinition(definition)) return definition.readonly === true
+  return Object.keys(definition).some(key => hasReadonlyField(definition[key] as SchemaDefinition))
+}
+
+/**
+ * Find a key of some props for an update which would write over
+ *  a readonly field (or a nested schema holding one)
+ *
+ * @param schema - The schema of the documents updated
+ * @param props - The props to update
+ * @returns the key, or `undefined` if there is none
+ */
+export const readonlyKeyIn = (schema: object, props: object): string | undefined => (
+  Object.keys(props).find(key => hasReadonlyField(fieldDefinitionAt(schema, [key])))
+)
+
+/**
+ * Find a readonly field changed by a value, looking through the
+ *  fields of nested schemas
+ *
+ * @param definition - The field definition or nested schema of the value
+ * @param path - The path to the value
+ * @param val - The new value
+ * @param prevVal - The previous value
+ */
+const changedWithin = (definition: SchemaDefinition | undefined, path: string[], val: any, prevVal: any): string | undefined => {
+  if (!definition || typeof definition !== 'object') return undefined
+  if (isFieldDefinition(definition)) {
+    if (definition.readonly !== true) return undefined
+    // compare as stored, e.g. so a `Date` reloaded as millis is unchanged
+    return equals(toDatabaseValue(val), toDatabaseValue(prevVal)) ? undefined : path.join('.')
+  }
+
+  let changed: string | undefined
+  Object.keys(definition).some(key => !!(changed = changedWithin(
+    definition[key] as SchemaDefinition,
+    [...path, key],
+    val && typeof val === 'object' ? val[key] : undefined,
+    prevVal && typeof prevVal === 'object' ? prevVal[key] : undefined
+  )))
+  return changed
+}
+
+/**
+ * Find a readonly field changed by a change to a document: one
+ *  the change is within (e.g. a key of a readonly JSON field), or
+ *  one at or within the path changed
+ *
+ * @param schema - The schema of the document
+ * @param pathArr - The path changed
+ * @param val - The new value at the path
+ * @param prevVal - The previous value at the path
+ * @returns the path of the readonly field changed, or `undefined` if there is none
+ */
+export const readonlyChange = (schema: object, pathArr: string[], val: any, prevVal: any): string | undefined => {
+  const within = pathArr.findIndex((_, index) => (
+    index < pathArr.length - 1 && (fieldDefinitionAt(schema, pathArr.slice(0, index + 1)) || {}).readonly === true
+  ))
+  if (within !== -1) {
+    return equals(toDatabaseValue(val), toDatabaseValue(prevVal)) ? undefined : pathArr.slice(0, within + 1).join('.')
+  }
+  return changedWithin(fieldDefinitionAt(schema, pathArr), pathArr, val, prevVal)
+}
@@ -1,8 +1,105 @@
-import { whereEq } from 'ramda'
+import { get, set, cloneDeep, pick } from 'lodash'
+import firebase from 'firebase/app'
 import { ActiveClass, ActiveDocument } from "../../types/class.types";
 import { getFirebaseDatabase } from "../../initialize/initialize";
-import { DocumentSchema, ObjectFromDocument } from "../../types/schema.types";
+import { DocumentSchema, ObjectFromDocument, ToCreateDocument } from "../../types/schema.types";
+import { ActiveQuery, MatchProps } from '../../types/query.types';
 import ActiveClassError from '../Error/ActiveClassError';
+import ValidationError from '../Error/ValidationError';
+import pushdownProps from '../query/pushdownProps';
+import matchesProps from '../query/matchesProps';
+import snapshotValues from '../query/snapshotValues';
+import createQuery from '../query/createQuery';
+import { encodeCursor, decodeCursor } from '../query/cursor';
+import watchQuery from '../query/watchQuery';
+import checkIncrement, { isBounded } from '../increment/checkIncrement';
+import runTransaction from '../transaction/runTransaction';
+import runValidators from '../validation/runValidators';
+import checkDocument from '../constructor/checkDocument';
+import prepareValue, { markPrepared } from '../constructor/prepareValue';
+import toDatabaseValue from '../../utils/toDatabaseValue';
+import withoutHiddenFields from '../../utils/withoutHiddenFields';
+import withUpdatedAt from '../../utils/withUpdatedAt';
+import { markPersisted, readonlyError, readonlyKeyIn } from '../readonly/readonly';
+
+/**
+ * Check that some props fit the schema of an `ActiveClass`, by
+ *  constructing (but not syncing) a document from them and
+ *  running its validators
+ * 
+ * @param ActiveClass - The `ActiveClass` with the schema
+ * @param props - The props to check
+ * @param what - What operation fails if they do not fit
+ * @returns the document, with the values as checked (e.g. coerced and trimmed)
+ */
+const checkAgainstSchema = async <Schema extends DocumentSchema>(
+  ActiveClass: ActiveClass<Schema>,
+  props: ObjectFromDocument<Schema>,
+  what: string
+): Promise<ActiveDocument<Schema>> => {
+  try {
+    const document = new ActiveClass(props as ToCreateDocument<Schema>)
+    await runValidators(document)
+    return document
+  } catch (err) {
+    throw ActiveClassError.from(err, { what })
+  }
+}
+
+/**
+ * The values of a checked document for the keys of an update,
+ *  so that what is written has been coerced, trimmed and transformed
+ * 
+ * @param document - The document checked with the update
+ * @param props - The props of the update
+ */
+const updatedValues = <Schema extends DocumentSchema>(document: ActiveDocument<Schema>, props: object): object => (
+  pick(document.toObject({ includeHidden: true }), Object.keys(props))
+)
+
+/**
+ * Refuse an update which touches a readonly field, as those cannot
+ *  be changed once a document is saved
+ * 
+ * @param ActiveClass - The `ActiveClass` being updated
+ * @param props - The props to update
+ */
+const refuseReadonlyUpdate = (ActiveClass: ActiveClass<any>, props: object): void => {
+  const readonlyKey = readonlyKeyIn(ActiveClass.schema, props)
+  if (readonlyKey) {
+    throw readonlyError(`Could not update ${ActiveClass.name}`, readonlyKey, ActiveClass.name)
+  }
+}
+
+/**
+ * Retrieve the raw values of all documents in the database that
+ *  match some props, or of the whole table if none are passed
+ * 
+ * @param ActiveClass - The `ActiveClass` of the documents
+ * @param props - The props to match by
+ */
+const matchingValues = async <Schema extends DocumentSchema>(
+  ActiveClass: ActiveClass<Schema>,
+  props?: MatchProps<Schema>
+): Promise<ObjectFromDocument<Schema>[]> => {
+  // match against values as they are stored, e.g. timestamps as millis
+  const storedProps = props && toDatabaseValue(props)
+  if (storedProps) {
+    const { query, leftover } = pushdownProps(ActiveClass.ref(), storedProps)
+    if (query) {
+      // let the server do the filtering it can, and match the rest here
+      const snapshot = await query.once('value')
+      const array: ObjectFromDocument<Schema>[] = snapshotValues(snapshot)
+      return array.filter(matchesProps(leftover))
+    }
+  }
+
+  const cache = await ActiveClass.cache({ fetchNow: true })
+  const array = Object.values(cache)
+  return storedProps
+    ? array.filter(matchesProps(storedProps))
+    : array
+}
 
 /**
  * Adds default class methods and properties onto the `ActiveClass`
@@ -13,8 +110,9 @@ const addActiveClassStatics = <Schema extends DocumentSchema, ThisClass extends
 
   // utilities
   ActiveClass.from = function(props) {
-    // @ts-ignore
-    const document = new this(props)
+    // @ts-ignore : the values as stored are already prepared
+    const document = new this(markPrepared({ ...props }))
+    markPersisted(document)
     document.syncOpts({ fromDb: true, toDb: true })
     return document
   }
@@ -38,18 +136,77 @@ const addActiveClassStatics = <Schema extends DocumentSchema, ThisClass extends
       : tableRef
   }
 
-  ActiveClass.values = async function (props?): Promise<ObjectFromDocument<Schema>[]> {
-    const cache = await this.cache({ fetchNow: true })
-    const array = Object.values(cache)
-    return props
-      ? array.filter(document => whereEq(props, document))
-      : array
+  ActiveClass.paginate = async function ({ orderBy, pageSize, after }) {
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new ActiveClassError({
+        what: `Could not paginate ${this.name}`,
+        why: `The page size must be a positive integer, but was ${pageSize}`
+      })
+    }
+
+    const query = this.query()
+    const field = orderBy ? String(orderBy) : null
+    if (orderBy) {
+      query.orderBy(orderBy)
+    } else {
+      query.orderByKey()
+    }
+
+    const cursor = after ? decodeCursor(after) : null
+    if (cursor) {
+      // starting at the cursor includes the document it was made from
+      if (field) {
+        query.startAt(cursor.value, cursor._id)
+      } else {
+        query.startAt(cursor._id)
+      }
+    }
+
+    // fetch an extra document to find out if there is a further page
+    query.limit(pageSize + (cursor ? 2 : 1))
+    const values = (await query.values())
+      .filter(document => !cursor || document._id !== cursor._id)
+
+    const pageValues = values.slice(0, pageSize)
+    const hasMore = values.length > pageSize
+    const last = pageValues[pageValues.length - 1]
+
+    return {
+      // @ts-ignore
+      items: pageValues.map(props => this.from(props)),
+      nextCursor: hasMore && last && last._id
+        ? encodeCursor({ value: field ? get(last, field, null) : last._id, _id: last._id })
+        : null,
+      hasMore
+    }
   }
 
-  ActiveClass.value = async function(props?): Promise<ObjectFromDocument<Schema> | null> {
-    const values = await this.values()
-    // @ts-ignore
-    return values.find(document => whereEq(props, document)) || null
+  ActiveClass.query = function () {
+    return createQuery(this)
+  }
+
+  ActiveClass.watch = function (propsOrQuery, callback) {
+    if (typeof propsOrQuery.where === 'function' && typeof propsOrQuery.ref === 'function') {
+      const query = propsOrQuery as ActiveQuery<Schema, any>
+      return watchQuery(this, { ref: query.ref(), matches: query.matches, limitMatching: query.limitMatching }, callback)
+    } else {
+      const { query, leftover } = pushdownProps(this.ref(), toDatabaseValue(propsOrQuery))
+      return watchQuery(this, { ref: query || this.ref(), matches: matchesProps(leftover) }, callback)
+    }
+  }
+
+  // @ts-ignore : overloaded on whether to include hidden fields
+  ActiveClass.values = async function (props?, { includeHidden = true } = {}): Promise<ObjectFromDocument<Schema>[]> {
+    const matching = await matchingValues(this, props)
+    return includeHidden
+      ? matching
+      : matching.map(values => withoutHiddenFields(this.schema, values))
+  }
+
+  // @ts-ignore : overloaded on whether to include hidden fields
+  ActiveClass.value = async function(props?, opts?: { includeHidden?: boolean }): Promise<ObjectFromDocument<Schema> | null> {
+    const values = await this.values(props, opts)
+    return values[0] || null
   }
 
   // main
@@ -58,8 +215,10 @@ const addActiveClassStatics = <Schema extends DocumentSchema, ThisClass extends
   ActiveClass.create = async function (props): Promise<ActiveDocument<Schema>> {
     try {
       const document = new this({ ...props })
+      await runValidators(document)
       document.syncOpts({ fromDb: true, toDb: true }) // sync by default when using `create`
-      await document.ref().set(document.toObject())
+      await document.ref().set(toDatabaseValue(document.toObject({ includeHidden: true })))
+      markPersisted(document)
       return document
     } catch (err) {
       throw ActiveClassError.from(err, {
@@ -69,9 +228,7 @@ const addActiveClassStatics = <Schema extends DocumentSchema, ThisClass extends
   }
 
   ActiveClass.delete = async function(props): Promise<number> {
-    const tableValues = await this.values()
-    // @ts-ignore
-    const matchingVals = tableValues.filter(document => whereEq(props, document))
+    const matchingVals = await this.values(props)
     await Promise.all(matchingVals.map(async (val) => {
       if (val._id) await this.ref(val._id).remove()
     }))
@@ -79,8 +236,7 @@ const addActiveClassStatics = <Schema extends DocumentSchema, ThisClass extends
   }
 
   ActiveClass.deleteOne = async function (props): Promise<boolean> {
-    const tableValues = await this.values()
-    const firstMatch = tableValues.find(document => whereEq(props, document))
+    const firstMatch = await this.value(props)
     if (firstMatch && firstMatch._id) {
       await this.ref(firstMatch._id).remove()
       return true
@@ -134,28 +290,93 @@ const addActiveClassStatics = <Schema extends DocumentSchema, ThisClass extends
     return this.from(firstMatch)
   }
 
+  ActiveClass.increment = async function (id, path, delta = 1): Promise<void> {
+    const what = `Could not increment ${this.name}`
+    const definition = checkIncrement(this, path, delta)
+
+    try {
+      if (isBounded(definition)) {
+        // the server can't check the incremented value, so increment in a transaction which does
+        await runTransaction(this, id, current => (
+          set(current, path, (get(current, path) || 0) + delta)
+        ))
+      } else {
+        // a server increment would create a document with only the field, so refuse
+        //  missing documents as a transaction does
+        const snapshot = await this.ref(id).once('value')
+        if (!snapshot.exists()) {
+          throw new ActiveClassError({
+            what,
+            why: `No ${this.name} with that id exists in the connected Firebase Realtime Database`
+          })
+        }
+        // bump `updatedAt` in the same write, as a transaction does
+        await this.ref(id).update(toDatabaseValue(withUpdatedAt(this, {
+          [path.replace(/\./g, '/')]: firebase.database.ServerValue.increment(delta)
+        })))
+      }
+    } catch (err) {
+      throw ActiveClassError.from(err, { what })
+    }
+  }
+
+  ActiveClass.decrement = function (id, path, delta = 1): Promise<void> {
+    return this.increment(id, path, -delta)
+  }
+
+  // @ts-ignore : inheritance
+  ActiveClass.transaction = async function (id, mutator): Promise<ActiveDocument<Schema> | null> {
+    const values = await runTransaction(this, id, mutator)
+    // @ts-ignore
+    return values && this.from(values)
+  }
+
   // @ts-ignore : inheritance
-  ActiveClass.update = async function(matchProps, newProps): Promise<ActiveDocument<Schema>[]> {
+  ActiveClass.update = async function(matchProps, updateProps): Promise<ActiveDocument<Schema>[]> {
+    refuseReadonlyUpdate(this, updateProps)
+    const newProps = withUpdatedAt(this, prepareValue(this.schema, { ...updateProps }))
     const matchingVals = await this.values(matchProps)
-    const updatedVals = matchingVals.map(val => ({ ...val, ...newProps }))
-    await Promise.all(updatedVals.map(async (val) => {
-      if (val._id) await this.ref(val._id).update(newProps)
+    // check every updated document against the schema before writing any
+    const documents = await Promise.all(matchingVals.map(val => (
+      checkAgainstSchema(this, markPrepared({ ...val, ...newProps }), `Could not update ${this.name}`)
+    )))
+    const updatedVals = documents.map(document => updatedValues(document, newProps))
+    await Promise.all(matchingVals.map(async (val, index) => {
+      if (val._id) await this.ref(val._id).update(toDatabaseValue(updatedVals[index]))
     }))
-    return updatedVals.map(val => {
+    return matchingVals.map((val, index) => {
       // @ts-ignore
-      return this.from(val)
+      return this.from({ ...val, ...updatedVals[index] })
     })
   }
 
   // @ts-ignore : inheritance
-  ActiveClass.updateOne = async function (matchProps, newProps): Promise<ActiveDocument<Schema> | null> {
+  ActiveClass.updateOne = async function (matchProps, updateProps): Promise<ActiveDocument<Schema> | null> {
+    refuseReadonlyUpdate(this, updateProps)
+    const newProps = withUpdatedAt(this, prepareValue(this.schema, { ...updateProps }))
     const firstMatch = await this.value(matchProps)
     if (!firstMatch) return null
-    const updatedMatch = { ...firstMatch, ...newProps }
-    if (firstMatch && firstMatch._id) await this.ref(firstMatch._id).update(newProps)
+    const document = await checkAgainstSchema(this, markPrepared({ ...firstMatch, ...newProps }), `Could not update ${this.name}`)
+    const updatedVals = updatedValues(document, newProps)
+    if (firstMatch._id) await this.ref(firstMatch._id).update(toDatabaseValue(updatedVals))
     // @ts-ignore
-    return this.from(updatedMatch)
+    return this.from({ ...firstMatch, ...updatedVals })
+  }
+
+  ActiveClass.validate = function (props) {
+    // check a copy on a bare instance, so nothing is constructed or mutated
+    const document = Object.assign(Object.create(this.prototype), prepareValue(this.schema, cloneDeep(props)))
+    try {
+      checkDocument(document, this.schema, {
+        what: `Could not set or update ${this.name}`,
+        validate: this.options.validate
+      })
+      return []
+    } catch (err) {
+      if (err instanceof ValidationError) return err.issues
+      throw err
+    }
   }
 }
 
-export default addActiveClassStatics
\ No newline at end of file
+export default addActiveClassStatics
@@ -0,0 +1,79 @@
+import { ActiveClass } from '../../types/class.types'
+import { DocumentSchema, ObjectFromDocument, ToCreateDocument } from '../../types/schema.types'
+import { TransactionMutator } from '../../types/transaction.types'
+import ActiveClassError from '../Error/ActiveClassError'
+import { markPrepared } from '../constructor/prepareValue'
+import toDatabaseValue from '../../utils/toDatabaseValue'
+import withUpdatedAt from '../../utils/withUpdatedAt'
+import { readonlyChange, readonlyError } from '../readonly/readonly'
+
+/**
+ * Atomically update a document with `Reference.transaction`,
+ *  checking the mutator's result against the schema (and that
+ *  it leaves readonly fields unchanged) before it is committed
+ *
+ * @param ActiveClass - The `ActiveClass` of the document
+ * @param id - The `_id` of the document
+ * @param mutator - Computes the new values from the current values
+ * @returns the values committed, or `null` if the mutator aborted
+ */
+async function runTransaction<Schema extends DocumentSchema>(
+  ActiveClass: ActiveClass<Schema>,
+  id: string,
+  mutator: TransactionMutator<Schema>
+): Promise<ObjectFromDocument<Schema> | null> {
+  const what = `Could not run transaction on ${ActiveClass.name}`
+  // an invalid result aborts the transaction, to be thrown afterwards
+  let invalid: Error | null = null
+
+  // the values of a document, as stored or as held, are valid creation props,
+  //  and are already prepared
+  const valuesOf = (values: ObjectFromDocument<Schema>) => (
+    new ActiveClass(markPrepared({ ...values }) as ToCreateDocument<Schema>).toObject({ includeHidden: true })
+  )
+
+  const update = (current: ObjectFromDocument<Schema> | null) => {
+    invalid = null
+    // Firebase first guesses from its (possibly empty) local cache,
+    //  and retries with the server value if the guess is wrong
+    if (current === null) return null
+
+    try {
+      // the mutator works on document values, e.g. `Date`s for timestamps
+      const result = mutator(valuesOf(current))
+      if (typeof result === 'undefined') return undefined
+      const values = valuesOf({ ...withUpdatedAt(ActiveClass, result), _id: id })
+      // compare with the values as stored, since the mutator may have changed its argument
+      const readonlyPath = readonlyChange(ActiveClass.schema, [], values, current)
+      if (readonlyPath) {
+        throw readonlyError(what, readonlyPath, ActiveClass.name)
+      }
+      return toDatabaseValue(values)
+    } catch (err) {
+      invalid = err
+      return undefined
+    }
+  }
+
+  let committed: boolean
+  let snapshot: firebase.database.DataSnapshot
+  try {
+    ({ committed, snapshot } = await ActiveClass.ref(id).transaction(update))
+  } catch (err) {
+    throw ActiveClassError.from(err, { what })
+  }
+
+  if (invalid) throw ActiveClassError.from(invalid, { what })
+  if (!committed) return null
+
+  const values: ObjectFromDocument<Schema> | null = snapshot.val()
+  if (values === null) {
+    throw new ActiveClassError({
+      what,
+      why: `No ${ActiveClass.name} with that id exists in the connected Firebase Realtime Database`
+    })
+  }
+  return valuesOf(values)
+}
+
+export default runTransaction
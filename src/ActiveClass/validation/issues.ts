@@ -0,0 +1,88 @@
+import { FieldIdentifier } from '../../types/field.types'
+import { SchemaDefinition } from '../../types/schema.types'
+import { ValidationIssue } from '../../types/validation.types'
+import ValidationError from '../Error/ValidationError'
+
+/**
+ * Describe the kind of a value, e.g. 'string', 'null' or 'array'
+ * 
+ * @param value - The value to describe
+ */
+export const kindOf = (value: unknown): string => (
+  value === null ? 'null'
+    : Array.isArray(value) ? 'array'
+    : value instanceof Date ? 'Date'
+    : typeof value
+)
+
+/**
+ * Describe the kind of value that a field definition (or nested
+ *  schema) expects, e.g. 'string' or '"admin" | "member"'
+ * 
+ * @param definition - The field definition or nested schema
+ */
+export const expectedKind = (definition: SchemaDefinition): string => {
+  switch (definition._fieldIdentifier) {
+    case FieldIdentifier.string: return 'string'
+    case FieldIdentifier.number: return 'number'
+    case FieldIdentifier.boolean: return 'boolean'
+    case FieldIdentifier.true: return 'true'
+    case FieldIdentifier.enum: return definition.vals.map(val => JSON.stringify(val)).join(' | ')
+    case FieldIdentifier.timestamp: return 'Date'
+    case FieldIdentifier.array: return 'array'
+    case FieldIdentifier.json: return 'JSON'
+    // indexed fields and nested schemas
+    default: return 'object'
+  }
+}
+
+/**
+ * The issue with a required value that is missing
+ * 
+ * @param definition - The field definition or nested schema
+ * @param path - The path to the value
+ */
+export const requiredIssue = (definition: SchemaDefinition, path: string[]): ValidationIssue => ({
+  path: path.join('.'),
+  code: 'required',
+  message: `The required property '${path.join('.')}' is missing`,
+  expected: expectedKind(definition),
+  received: 'undefined'
+})
+
+/**
+ * The issue with a value that is of the wrong type
+ * 
+ * @param definition - The field definition or nested schema
+ * @param value - The value of the wrong type
+ * @param path - The path to the value
+ */
+export const typeIssue = (definition: SchemaDefinition, value: unknown, path: string[]): ValidationIssue => ({
+  path: path.join('.'),
+  code: 'type',
+  message: `The property '${path.join('.')}' is of the wrong type`,
+  expected: expectedKind(definition),
+  received: definition._fieldIdentifier === FieldIdentifier.enum && kindOf(value) !== 'object'
+    ? String(JSON.stringify(value))
+    : kindOf(value)
+})
+
+/**
+ * Run every check, rather than stopping at the first which fails
+ * 
+ * @param what - What operation fails if any of the checks do
+ * @param checks - The checks, which throw a `ValidationError` if they fail
+ * @throws a `ValidationError` with the issues of every check which failed
+ */
+export const checkAll = (what: string, checks: Array<() => void>): void => {
+  const issues: ValidationIssue[] = []
+  checks.forEach(check => {
+    try {
+      check()
+    } catch (err) {
+      if (!(err instanceof ValidationError)) throw err
+      issues.push(...err.issues)
+    }
+  })
+  if (issues.length > 0) throw new ValidationError({ what, issues })
+}
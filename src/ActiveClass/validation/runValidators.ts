@@ -0,0 +1,106 @@
+import { ActiveDocument } from '../../types/class.types'
+import { DocumentSchema, SchemaDefinition } from '../../types/schema.types'
+import { AnyFieldDefinition, FieldIdentifier } from '../../types/field.types'
+import { ValidationIssue } from '../../types/validation.types'
+import ValidationError from '../Error/ValidationError'
+import { validatorIssue } from '../constructor/validatorFailure'
+import isFieldDefinition from '../../utils/isFieldDefinition'
+
+/**
+ * The validators of a field definition or of class options: the
+ *  synchronous `validate` and the asynchronous `validateAsync`
+ */
+const validatorsOf = ({ validate, validateAsync }: { validate?: Function, validateAsync?: Function }): Function[] => (
+  [validate, validateAsync].filter((validator): validator is Function => typeof validator === 'function')
+)
+
+/**
+ * Run the validators of the values within a field which holds other
+ *  fields - the elements of an array, the values of an index, or the
+ *  fields of a union's branch
+ * 
+ * @returns a promise for the issue from each validator, if it failed
+ */
+const validationsWithin = (
+  definition: AnyFieldDefinition,
+  value: any,
+  path: string[],
+  document: object
+): Promise<ValidationIssue | undefined>[] => {
+  switch (definition._fieldIdentifier) {
+    case FieldIdentifier.array:
+      return Array.isArray(value)
+        ? value.reduce((validations, element, index) => [
+          ...validations,
+          ...fieldValidations(definition.elements, element, [...path, String(index)], document)
+        ], [] as Promise<ValidationIssue | undefined>[])
+        : []
+    case FieldIdentifier.union:
+      const branch = definition.branches[value[definition.discriminator]]
+      return branch ? fieldValidations(branch, value, path, document) : []
+    case FieldIdentifier.indexed:
+      return Object.keys(value).reduce((validations, key) => [
+        ...validations,
+        ...fieldValidations(definition.indexed, value[key], [...path, key], document)
+      ], [] as Promise<ValidationIssue | undefined>[])
+    default:
+      return []
+  }
+}
+
+/**
+ * Run the validators of a field definition or nested schema, and
+ *  of any values within it
+ * 
+ * @returns a promise for the issue from each validator, if it failed
+ */
+const fieldValidations = (
+  definition: SchemaDefinition,
+  value: any,
+  path: string[],
+  document: object
+): Promise<ValidationIssue | undefined>[] => {
+  if (value === null || typeof value === 'undefined') return []
+
+  if (!isFieldDefinition(definition)) {
+    return Object.keys(definition).reduce((validations, key) => [
+      ...validations,
+      ...fieldValidations(definition[key] as SchemaDefinition, value[key], [...path, key], document)
+    ], [] as Promise<ValidationIssue | undefined>[])
+  }
+
+  return [
+    ...validationsWithin(definition, value, path, document),
+    ...validatorsOf(definition).map(validate => (
+      Promise.resolve(validate(value, document))
+        .then(result => validatorIssue(result, path))
+    ))
+  ]
+}
+
+/**
+ * Run every validator on a document - on its fields and on the whole
+ *  document - including the asynchronous `validateAsync` validators,
+ *  which are only run here
+ * 
+ * @param document - The document to validate
+ * @throws a `ValidationError` with the issue from every failing validator
+ */
+async function runValidators<Schema extends DocumentSchema>(document: ActiveDocument<Schema>): Promise<void> {
+  const { schema, options, name } = document.constructor
+  const validations = [
+    ...fieldValidations(schema, document, [], document),
+    ...validatorsOf(options).map(validate => (
+      Promise.resolve(validate(document))
+        .then(result => validatorIssue(result, []))
+    ))
+  ]
+
+  const results = await Promise.all(validations)
+  const issues = results.filter((issue): issue is ValidationIssue => !!issue)
+  if (issues.length > 0) {
+    throw new ValidationError({ what: `${name} is invalid`, issues })
+  }
+}
+
+export default runValidators
@@ -3,6 +3,12 @@ import string from "./string.schema"
 import boolean from './boolean.schema';
 import enumr from './enum.schema';
 import indexed from './indexed.schema';
+import timestamp from './timestamp.schema';
+import array from './array.schema';
+import ref from './ref.schema';
+import union from './union.schema';
+import json from './json.schema';
+import { parse, safeParse } from './parse';
 
 // enum is a reserved keyword in TS
 // so some renaming is required
@@ -12,7 +18,14 @@ const Schema = {
   number,
   boolean,
   enum: enumr,
-  indexed
+  indexed,
+  timestamp,
+  array,
+  ref,
+  union,
+  json,
+  parse,
+  safeParse
 }
 
 export {
@@ -20,7 +33,14 @@ export {
   string,
   boolean,
   enumr as enum,
-  indexed
+  indexed,
+  timestamp,
+  array,
+  ref,
+  union,
+  json,
+  parse,
+  safeParse
 }
 
 export default Schema
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { ArrayFieldDefinition, ContainerFieldOptions, CreateFieldArray, FieldFlags, FieldIdentifier, RequiredByOptions } from "../types/field.types"
+
+/**
+ * A field holding an ordered list of elements, which default to
+ *  an empty list (as the Realtime Database does not store them)
+ * 
+ * @param elements - The field definition, or nested schema, of every element
+ * @param opts - Whether the field is readonly, hidden or optional, its default and its validator
+ */
+const array = <E extends object, O extends ContainerFieldOptions<any> = {}>(
+  elements: E,
+  opts?: O & ContainerFieldOptions<CreateFieldArray<E>>
+): ArrayFieldDefinition<E, RequiredByOptions<O>> & FieldFlags<O> => {
+  const { default: defaultVal = [], required, optional, ...rest } = opts || {} as ContainerFieldOptions<any>
+  // @ts-ignore : the flags are spread from the options
+  return {
+    ...rest,
+    _fieldIdentifier: FieldIdentifier.array,
+    elements,
+    required: !(optional || required === false),
+    _hasDefault: true,
+    default: defaultVal
+  }
+}
+
+export default array
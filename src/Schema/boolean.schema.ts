@@ -1,9 +1,12 @@
-import { FieldOptions, FieldDefinition, FieldIdentifier } from "../types/field.types"
+import { FieldOptions, FieldDefinition, FieldIdentifier, DefaultValue, FieldFlags, RequiredByOptions, DefaultedByOptions } from "../types/field.types"
+
+// Overload for readonly, hidden or coerce: marked on the definition, for the types of documents
+function booleanFn<O extends FieldOptions<boolean> & ({ readonly: true } | { hidden: true } | { coerce: true }) & { required?: boolean, optional?: boolean, default?: DefaultValue<boolean> }>(opts: O): FieldDefinition<boolean, RequiredByOptions<O>, DefaultedByOptions<O>> & FieldFlags<O>;
 
 // Overloads for required with default: i.e. it exists on document but need not be passed in
-function booleanFn(opts: FieldOptions<boolean> & { required: true, default: boolean }): FieldDefinition<boolean, true, true>;
-function booleanFn(opts: FieldOptions<boolean> & { optional: false, default: boolean }): FieldDefinition<boolean, true, true>;
-function booleanFn(opts: FieldOptions<boolean> & { default: boolean }): FieldDefinition<boolean, true, true>;
+function booleanFn(opts: FieldOptions<boolean> & { required: true, default: DefaultValue<boolean> }): FieldDefinition<boolean, true, true>;
+function booleanFn(opts: FieldOptions<boolean> & { optional: false, default: DefaultValue<boolean> }): FieldDefinition<boolean, true, true>;
+function booleanFn(opts: FieldOptions<boolean> & { default: DefaultValue<boolean> }): FieldDefinition<boolean, true, true>;
 
 // Overloads for required with no default: i.e. it exists on document and must be passed in
 function booleanFn(): FieldDefinition<boolean, true, false>
@@ -12,18 +15,18 @@ function booleanFn(opts: FieldOptions<boolean> & { required: true }): FieldDefin
 function booleanFn(opts: FieldOptions<boolean> & { optional: false }): FieldDefinition<boolean, true, false>
 
 // Overloads for optional wiwth default
-function booleanFn(opts: FieldOptions<boolean> & { optional: true, default: boolean }): FieldDefinition<boolean, false, true>;
-function booleanFn(opts: FieldOptions<boolean> & { required: false, default: boolean }): FieldDefinition<boolean, false, true>;
+function booleanFn(opts: FieldOptions<boolean> & { optional: true, default: DefaultValue<boolean> }): FieldDefinition<boolean, false, true>;
+function booleanFn(opts: FieldOptions<boolean> & { required: false, default: DefaultValue<boolean> }): FieldDefinition<boolean, false, true>;
 
 // Overloads for optional
 function booleanFn(opts: FieldOptions<boolean> & { required: false }): FieldDefinition<boolean, false>;
 function booleanFn(opts: FieldOptions<boolean> & { optional: true }): FieldDefinition<boolean, false>;
 
 // General definition
-function booleanFn(opts: FieldOptions<boolean> & { optional?: boolean, default?: boolean }): FieldDefinition<boolean>
-function booleanFn(opts: FieldOptions<boolean> & { required?: boolean, default?: boolean }): FieldDefinition<boolean>
+function booleanFn(opts: FieldOptions<boolean> & { optional?: boolean, default?: DefaultValue<boolean> }): FieldDefinition<boolean>
+function booleanFn(opts: FieldOptions<boolean> & { required?: boolean, default?: DefaultValue<boolean> }): FieldDefinition<boolean>
 
-function booleanFn(opts?: FieldOptions<boolean> & { required?: boolean, optional?: boolean, default?: boolean }): any {
+function booleanFn(opts?: FieldOptions<boolean> & { required?: boolean, optional?: boolean, default?: DefaultValue<boolean> }): any {
   if (!opts) return { _fieldIdentifier: FieldIdentifier.boolean, required: true }
 
   const { default: defaultVal, required, optional, ...rest } = opts
@@ -33,6 +36,7 @@ function booleanFn(opts?: FieldOptions<boolean> & { required?: boolean, optional
 
   if (typeof defaultVal !== 'undefined') {
     fieldConfig._hasDefault = true
+    // @ts-ignore : a function gives a boolean, rather than `true` or `false`
     fieldConfig.default = defaultVal
   } else {
     fieldConfig._hasDefault = false
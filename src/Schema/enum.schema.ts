@@ -1,18 +1,27 @@
-import { FieldOptions, FieldDefinition, FieldIdentifier } from "../types/field.types"
+import { FieldOptions, FieldDefinition, FieldIdentifier, DefaultValue, FieldFlags, RequiredByOptions, DefaultedByOptions } from "../types/field.types"
 
 
+// Overload for readonly or hidden: marked on the definition, for the types of documents
+function enumr<
+  UnionType extends string | number,
+  O extends FieldOptions<UnionType[]> & ({ readonly: true } | { hidden: true }) & { required?: boolean, optional?: boolean, default?: DefaultValue<UnionType> }
+>(
+  enumVals: readonly UnionType[],
+  opts: O
+): FieldDefinition<UnionType[], RequiredByOptions<O>, DefaultedByOptions<O>> & FieldFlags<O>
+
 // Overloads for required with default: i.e. it exists on document but need not be passed in
 function enumr<UnionType extends string | number = string>(
   enumVals: readonly UnionType[],
-  opts: FieldOptions<UnionType> & { required: true, default: UnionType }
+  opts: FieldOptions<UnionType> & { required: true, default: DefaultValue<UnionType> }
 ): FieldDefinition<UnionType[], true, true>
 function enumr<UnionType extends string | number = string>(
   enumVals: readonly UnionType[],
-  opts: FieldOptions<UnionType[]> & { optional: false, default: UnionType }
+  opts: FieldOptions<UnionType[]> & { optional: false, default: DefaultValue<UnionType> }
 ): FieldDefinition<UnionType[], true, true>;
 function enumr<UnionType extends string | number = string>(
   enumVals: readonly UnionType[],
-  opts: FieldOptions<UnionType[]> & { default: UnionType }
+  opts: FieldOptions<UnionType[]> & { default: DefaultValue<UnionType> }
 ): FieldDefinition<UnionType[], true, true>;
 
 // Overloads for required with no default: i.e. it exists on document and must be passed in
@@ -33,11 +42,11 @@ function enumr<UnionType extends string | number = string>(
 // Overloads for optional wiwth default
 function enumr<UnionType extends string | number = string>(
   enumVals: readonly UnionType[],
-  opts: FieldOptions<UnionType[]> & { optional: true, default: UnionType }
+  opts: FieldOptions<UnionType[]> & { optional: true, default: DefaultValue<UnionType> }
 ): FieldDefinition<UnionType[], false, true>;
 function enumr<UnionType extends string | number = string>(
   enumVals: readonly UnionType[],
-  opts: FieldOptions<UnionType[]> & { required: false, default: UnionType }
+  opts: FieldOptions<UnionType[]> & { required: false, default: DefaultValue<UnionType> }
 ): FieldDefinition<UnionType[], false, true>;
 
 // Overloads for optional
@@ -53,16 +62,16 @@ function enumr<UnionType extends string | number = string>(
 // General definition
 function enumr<UnionType extends string | number = string>(
   enumVals: readonly UnionType[],
-  opts: FieldOptions<UnionType[]> & { optional?: boolean, default?: UnionType }
+  opts: FieldOptions<UnionType[]> & { optional?: boolean, default?: DefaultValue<UnionType> }
 ): FieldDefinition<UnionType[]>
 function enumr<UnionType extends string | number = string>(
   enumVals: readonly UnionType[],
-  opts: FieldOptions<UnionType[]> & { required?: boolean, default?: UnionType }
+  opts: FieldOptions<UnionType[]> & { required?: boolean, default?: DefaultValue<UnionType> }
 ): FieldDefinition<UnionType[]>
 
 function enumr<UnionType extends string | number = string>(
   enumVals: readonly UnionType[],
-  opts?: FieldOptions<UnionType[]> & { required?: boolean, optional?: boolean, default?: UnionType }
+  opts?: FieldOptions<UnionType[]> & { required?: boolean, optional?: boolean, default?: DefaultValue<UnionType> }
 ): any {
   if (!opts) return { _fieldIdentifier: FieldIdentifier.enum, vals: enumVals, required: true }
 
@@ -72,7 +81,8 @@ function enumr<UnionType extends string | number = string>(
   let fieldConfig: FieldDefinition<UnionType[]> = { ...rest, _fieldIdentifier: FieldIdentifier.enum, vals: enumVals }
 
   if (typeof defaultVal !== 'undefined') {
-    if (!enumVals.includes(defaultVal)) {
+    // a default which is a function is checked with each document instead
+    if (typeof defaultVal !== 'function' && !enumVals.includes(defaultVal)) {
       throw new Error(`UnionTypehe supplied default value ${defaultVal} does not exist in the specifed enum, ${enumVals.join(' | ')}`)
     }
     fieldConfig._hasDefault = true
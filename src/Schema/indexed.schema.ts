@@ -1,62 +1,78 @@
-import { FieldIdentifier, IndexedFieldDefinition } from "../types/field.types"
+import { ContainerFieldOptions, CreateFieldIndex, FieldFlags, FieldIdentifier, IndexedFieldDefinition, IndexedSchemaFieldDefinition, RequiredByOptions } from "../types/field.types"
 import string from './string.schema';
 import enumr from './enum.schema';
 import boolean from './boolean.schema';
 import number from './number.schema';
 
-const indexString = (): IndexedFieldDefinition<string> => ({
-  _fieldIdentifier: FieldIdentifier.indexed,
-  indexed: string(),
-  _hasDefault: true,
-  default: {}
-})
+/**
+ * The definition of an index whose values each fit a field definition
+ *  (or nested schema), which defaults to an empty index (as the
+ *  Realtime Database does not store them)
+ * 
+ * @param indexed - The field definition, or nested schema, of every value
+ * @param opts - Whether the field is readonly, hidden or optional, its default and its validator
+ */
+const indexedField = (indexed: object, opts: ContainerFieldOptions<object> = {}): any => {
+  const { default: defaultVal = {}, required, optional, ...rest } = opts
+  return {
+    ...rest,
+    _fieldIdentifier: FieldIdentifier.indexed,
+    indexed,
+    required: !(optional || required === false),
+    _hasDefault: true,
+    default: defaultVal
+  }
+}
+
+const indexString = <O extends ContainerFieldOptions<any> = {}>(
+  opts?: O & ContainerFieldOptions<{ [key: string]: string }>
+): IndexedFieldDefinition<string, RequiredByOptions<O>> & FieldFlags<O> => indexedField(string(), opts)
 const indexedString = Object.assign(indexString, indexString())
 
-const indexedEnum = <T extends string | number = string>(
-  enumVals: readonly T[]
-): IndexedFieldDefinition<T[]> => ({
-  _fieldIdentifier: FieldIdentifier.indexed,
-  indexed: enumr(enumVals),
-  _hasDefault: true,
-  default: {}
-})
+const indexedEnum = <T extends string | number = string, O extends ContainerFieldOptions<any> = {}>(
+  enumVals: readonly T[],
+  opts?: O & ContainerFieldOptions<{ [key: string]: T }>
+): IndexedFieldDefinition<T[], RequiredByOptions<O>> & FieldFlags<O> => indexedField(enumr(enumVals), opts)
 
-const indexBoolean = (): IndexedFieldDefinition<boolean> => ({
-  _fieldIdentifier: FieldIdentifier.indexed,
-  indexed: boolean,
-  _hasDefault: true,
-  default: {}
-})
+const indexBoolean = <O extends ContainerFieldOptions<any> = {}>(
+  opts?: O & ContainerFieldOptions<{ [key: string]: boolean }>
+): IndexedFieldDefinition<boolean, RequiredByOptions<O>> & FieldFlags<O> => indexedField(boolean, opts)
 const indexedBoolean = Object.assign(indexBoolean, indexBoolean())
 
-const indexNumber = (): IndexedFieldDefinition<number> => ({
-  _fieldIdentifier: FieldIdentifier.indexed,
-  indexed: number(),
-  _hasDefault: true,
-  default: {}
-})
+const indexNumber = <O extends ContainerFieldOptions<any> = {}>(
+  opts?: O & ContainerFieldOptions<{ [key: string]: number }>
+): IndexedFieldDefinition<number, RequiredByOptions<O>> & FieldFlags<O> => indexedField(number(), opts)
 const indexedNumber = Object.assign(indexNumber, indexNumber())
 
-const indexTrue = (): IndexedFieldDefinition<true> => ({
-  _fieldIdentifier: FieldIdentifier.indexed,
-  indexed: {
-    _fieldIdentifier: FieldIdentifier.true,
-    _hasDefault: true,
-    required: true,
-    default: true
-  },
+const indexTrue = <O extends ContainerFieldOptions<any> = {}>(
+  opts?: O & ContainerFieldOptions<{ [key: string]: true }>
+): IndexedFieldDefinition<true, RequiredByOptions<O>> & FieldFlags<O> => indexedField({
+  _fieldIdentifier: FieldIdentifier.true,
   _hasDefault: true,
-  default: {}
-})
+  required: true,
+  default: true
+}, opts)
 const indexedTrue = Object.assign(indexTrue, indexTrue())
 
+/**
+ * An index whose values each fit a nested schema
+ * 
+ * @param schema - The nested schema of every value
+ * @param opts - Whether the field is readonly, hidden or optional, its default and its validator
+ */
+const indexedOf = <S extends object, O extends ContainerFieldOptions<any> = {}>(
+  schema: S,
+  opts?: O & ContainerFieldOptions<CreateFieldIndex<S>>
+): IndexedSchemaFieldDefinition<S, RequiredByOptions<O>> & FieldFlags<O> => indexedField(schema, opts)
+
 const indexed = {
   _fieldIdentifier: FieldIdentifier.indexed,
   string: indexedString,
   boolean: indexedBoolean,
   number: indexedNumber,
   enum: indexedEnum,
-  true: indexedTrue
+  true: indexedTrue,
+  of: indexedOf
 }
 
 export default indexed
\ No newline at end of file
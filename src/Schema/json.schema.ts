@@ -0,0 +1,86 @@
+import { FieldIdentifier, JsonFieldDefinition, DefaultValue, Transform, Validator, AsyncValidator } from "../types/field.types"
+
+interface JsonFieldOptions<T> {
+  /**
+   * A change to the field's value before it is checked
+   */
+  transform?: Transform<T>,
+
+  /**
+   * A custom check on the field's value
+   */
+  validate?: Validator<T>,
+
+  /**
+   * An asynchronous custom check on the field's value, which is only
+   *  awaited before writes
+   */
+  validateAsync?: AsyncValidator<T>,
+
+  /**
+   * Whether the field cannot be changed once the document is saved
+   */
+  readonly?: boolean,
+
+  /**
+   * Whether the field is left out when the document is serialised
+   */
+  hidden?: boolean
+}
+
+type IsOptional = { optional: true } | { required: false }
+type IsReadonly = { readonly: true }
+type IsHidden = { hidden: true }
+
+// Overloads for readonly or hidden: marked on the definition, for the types of documents
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsReadonly & IsHidden & IsOptional & { default: DefaultValue<T> }): JsonFieldDefinition<T, false, true> & IsReadonly & IsHidden
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsReadonly & IsHidden & { default: DefaultValue<T> }): JsonFieldDefinition<T, true, true> & IsReadonly & IsHidden
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsReadonly & IsHidden & IsOptional): JsonFieldDefinition<T, false, false> & IsReadonly & IsHidden
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsReadonly & IsHidden & { required?: true, optional?: false }): JsonFieldDefinition<T, true, false> & IsReadonly & IsHidden
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsReadonly & IsOptional & { default: DefaultValue<T> }): JsonFieldDefinition<T, false, true> & IsReadonly
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsReadonly & { default: DefaultValue<T> }): JsonFieldDefinition<T, true, true> & IsReadonly
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsReadonly & IsOptional): JsonFieldDefinition<T, false, false> & IsReadonly
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsReadonly & { required?: true, optional?: false }): JsonFieldDefinition<T, true, false> & IsReadonly
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsHidden & IsOptional & { default: DefaultValue<T> }): JsonFieldDefinition<T, false, true> & IsHidden
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsHidden & { default: DefaultValue<T> }): JsonFieldDefinition<T, true, true> & IsHidden
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsHidden & IsOptional): JsonFieldDefinition<T, false, false> & IsHidden
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & IsHidden & { required?: true, optional?: false }): JsonFieldDefinition<T, true, false> & IsHidden
+
+// Overloads for optional with default
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & { optional: true, default: DefaultValue<T> }): JsonFieldDefinition<T, false, true>
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & { required: false, default: DefaultValue<T> }): JsonFieldDefinition<T, false, true>
+
+// Overloads for required with default
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & { default: DefaultValue<T> }): JsonFieldDefinition<T, true, true>
+
+// Overloads for optional
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & { optional: true }): JsonFieldDefinition<T, false, false>
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & { required: false }): JsonFieldDefinition<T, false, false>
+
+// Overloads for required
+function jsonFn<T = unknown>(): JsonFieldDefinition<T, true, false>
+function jsonFn<T = unknown>(opts: JsonFieldOptions<T> & { required?: true, optional?: false }): JsonFieldDefinition<T, true, false>
+
+/**
+ * A field holding any JSON-serialisable value, e.g. a payload from
+ *  another service, which is synced as a whole
+ * 
+ * @template T - the type of the value
+ */
+function jsonFn<T = unknown>(opts?: JsonFieldOptions<T> & { required?: boolean, optional?: boolean, default?: DefaultValue<T> }): any {
+  if (!opts) return { _fieldIdentifier: FieldIdentifier.json, required: true, _hasDefault: false }
+
+  const { default: defaultVal, required, optional, ...rest } = opts
+
+  return {
+    ...rest,
+    _fieldIdentifier: FieldIdentifier.json,
+    required: !(optional || required === false),
+    _hasDefault: typeof defaultVal !== 'undefined',
+    ...typeof defaultVal !== 'undefined' ? { default: defaultVal } : {}
+  }
+}
+
+const json = Object.assign(jsonFn, jsonFn())
+
+export default json
@@ -1,9 +1,12 @@
-import { FieldOptions, FieldDefinition, FieldIdentifier } from "../types/field.types"
+import { FieldOptions, FieldDefinition, FieldIdentifier, DefaultValue, FieldFlags, RequiredByOptions, DefaultedByOptions } from "../types/field.types"
+
+// Overload for readonly, hidden or coerce: marked on the definition, for the types of documents
+function numberFn<O extends FieldOptions<number> & ({ readonly: true } | { hidden: true } | { coerce: true }) & { required?: boolean, optional?: boolean, default?: DefaultValue<number> }>(opts: O): FieldDefinition<number, RequiredByOptions<O>, DefaultedByOptions<O>> & FieldFlags<O>;
 
 // Overloads for required with default: i.e. it exists on document but need not be passed in
-function numberFn(opts: FieldOptions<number> & { required: true, default: number }): FieldDefinition<number, true, true>;
-function numberFn(opts: FieldOptions<number> & { optional: false, default: number }): FieldDefinition<number, true, true>;
-function numberFn(opts: FieldOptions<number> & { default: number }): FieldDefinition<number, true, true>;
+function numberFn(opts: FieldOptions<number> & { required: true, default: DefaultValue<number> }): FieldDefinition<number, true, true>;
+function numberFn(opts: FieldOptions<number> & { optional: false, default: DefaultValue<number> }): FieldDefinition<number, true, true>;
+function numberFn(opts: FieldOptions<number> & { default: DefaultValue<number> }): FieldDefinition<number, true, true>;
 
 // Overloads for required with no default: i.e. it exists on document and must be passed in
 function numberFn(): FieldDefinition<number, true, false>
@@ -12,18 +15,18 @@ function numberFn(opts: FieldOptions<number> & { required: true }): FieldDefinit
 function numberFn(opts: FieldOptions<number> & { optional: false }): FieldDefinition<number, true, false>
 
 // Overloads for optional wiwth default
-function numberFn(opts: FieldOptions<number> & { optional: true, default: number }): FieldDefinition<number, false, true>;
-function numberFn(opts: FieldOptions<number> & { required: false, default: number }): FieldDefinition<number, false, true>;
+function numberFn(opts: FieldOptions<number> & { optional: true, default: DefaultValue<number> }): FieldDefinition<number, false, true>;
+function numberFn(opts: FieldOptions<number> & { required: false, default: DefaultValue<number> }): FieldDefinition<number, false, true>;
 
 // Overloads for optional
 function numberFn(opts: FieldOptions<number> & { required: false }): FieldDefinition<number, false>;
 function numberFn(opts: FieldOptions<number> & { optional: true }): FieldDefinition<number, false>;
 
 // General definition
-function numberFn(opts: FieldOptions<number> & { optional?: boolean, default?: number }): FieldDefinition<number>
-function numberFn(opts: FieldOptions<number> & { required?: boolean, default?: number }): FieldDefinition<number>
+function numberFn(opts: FieldOptions<number> & { optional?: boolean, default?: DefaultValue<number> }): FieldDefinition<number>
+function numberFn(opts: FieldOptions<number> & { required?: boolean, default?: DefaultValue<number> }): FieldDefinition<number>
 
-function numberFn(opts?: FieldOptions<number> & { required?: boolean, optional?: boolean, default?: number }): any {
+function numberFn(opts?: FieldOptions<number> & { required?: boolean, optional?: boolean, default?: DefaultValue<number> }): any {
   if (!opts) return { _fieldIdentifier: FieldIdentifier.number, required: true }
 
   const { default: defaultVal, required, optional, ...rest } = opts
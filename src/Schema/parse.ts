@@ -0,0 +1,54 @@
+import { cloneDeep } from 'lodash'
+import { DocumentSchema, ObjectFromDocument } from '../types/schema.types'
+import { SafeParseResult } from '../types/validation.types'
+import checkDocument from '../ActiveClass/constructor/checkDocument'
+import prepareValue from '../ActiveClass/constructor/prepareValue'
+import ValidationError from '../ActiveClass/Error/ValidationError'
+import { kindOf } from '../ActiveClass/validation/issues'
+
+/**
+ * Parse some data against a schema, without an `ActiveClass`
+ *  (e.g. the body of a request)
+ * 
+ * @param schema - The schema to parse the data against
+ * @param data - The data to parse, which is not mutated
+ * @returns a copy of the data, with defaults and conversions applied
+ * @throws a `ValidationError` with every issue found in the data
+ */
+export function parse<S extends DocumentSchema>(schema: S, data: unknown): ObjectFromDocument<S> {
+  const what = 'Could not parse the data'
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ValidationError({
+      what,
+      issues: [{
+        path: '',
+        code: 'type',
+        message: 'The data is not an object',
+        expected: 'object',
+        received: kindOf(data)
+      }]
+    })
+  }
+
+  const parsed = prepareValue(schema, cloneDeep(data as object))
+  checkDocument(parsed, schema, { what })
+  return parsed as ObjectFromDocument<S>
+}
+
+/**
+ * Parse some data against a schema, without an `ActiveClass`
+ *  and without throwing
+ * 
+ * @param schema - The schema to parse the data against
+ * @param data - The data to parse, which is not mutated
+ * @returns an object with either the parsed `data`, or the `error`
+ *  saying why it did not fit
+ */
+export function safeParse<S extends DocumentSchema>(schema: S, data: unknown): SafeParseResult<ObjectFromDocument<S>> {
+  try {
+    return { success: true, data: parse(schema, data) }
+  } catch (err) {
+    if (err instanceof ValidationError) return { success: false, error: err }
+    throw err
+  }
+}
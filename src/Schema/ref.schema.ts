@@ -0,0 +1,44 @@
+import { FieldOptions, FieldIdentifier, RefFieldDefinition, FieldFlags, RequiredByOptions } from "../types/field.types"
+import { ClassDefinition } from "../types/class.types"
+import { Relatable } from "../types/relations.types"
+
+type RefOptions = FieldOptions<string> & { required?: boolean, optional?: boolean }
+
+// Overload for readonly or hidden: marked on the definition, for the types of documents
+function ref<I, O extends RefOptions & ({ readonly: true } | { hidden: true }) & { as?: string }>(
+  related: Relatable<ClassDefinition<I>>,
+  opts: O
+): RefFieldDefinition<I, O extends { as: infer A } ? A & string : never, RequiredByOptions<O>> & FieldFlags<O>
+
+// Overloads with a named accessor
+function ref<I, A extends string>(related: Relatable<ClassDefinition<I>>, opts: RefOptions & { as: A, required: false }): RefFieldDefinition<I, A, false>
+function ref<I, A extends string>(related: Relatable<ClassDefinition<I>>, opts: RefOptions & { as: A, optional: true }): RefFieldDefinition<I, A, false>
+function ref<I, A extends string>(related: Relatable<ClassDefinition<I>>, opts: RefOptions & { as: A }): RefFieldDefinition<I, A, true>
+
+// Overloads with the accessor named after the field
+function ref<I>(related: Relatable<ClassDefinition<I>>): RefFieldDefinition<I, never, true>
+function ref<I>(related: Relatable<ClassDefinition<I>>, opts: RefOptions & { required: false }): RefFieldDefinition<I, never, false>
+function ref<I>(related: Relatable<ClassDefinition<I>>, opts: RefOptions & { optional: true }): RefFieldDefinition<I, never, false>
+function ref<I>(related: Relatable<ClassDefinition<I>>, opts: RefOptions): RefFieldDefinition<I, never, true>
+
+/**
+ * A string field holding the `_id` of a document of another
+ *  `ActiveClass`, which adds an accessor to the document that
+ *  finds the document referred to
+ * 
+ * @param related - The other `ActiveClass`, or the name it is stored under
+ * @param opts.as - The name of the accessor (by default, the field's
+ *  name without an 'Id' suffix, e.g. `author` for `authorId`)
+ */
+function ref<I>(related: Relatable<ClassDefinition<I>>, opts: RefOptions & { as?: string } = {}): any {
+  const { required, optional, ...rest } = opts
+  return {
+    ...rest,
+    _fieldIdentifier: FieldIdentifier.string,
+    _hasDefault: false,
+    required: !(optional || required === false),
+    ref: related
+  }
+}
+
+export default ref
@@ -1,9 +1,12 @@
-import { FieldOptions, FieldDefinition, FieldIdentifier } from "../types/field.types"
+import { FieldOptions, FieldDefinition, FieldIdentifier, DefaultValue, FieldFlags, RequiredByOptions, DefaultedByOptions } from "../types/field.types"
+
+// Overload for readonly or hidden: marked on the definition, for the types of documents
+function stringFn<O extends FieldOptions<string> & ({ readonly: true } | { hidden: true }) & { required?: boolean, optional?: boolean, default?: DefaultValue<string> }>(opts: O): FieldDefinition<string, RequiredByOptions<O>, DefaultedByOptions<O>> & FieldFlags<O>;
 
 // Overloads for required with default: i.e. it exists on document but need not be passed in
-function stringFn(opts: FieldOptions<string> & { required: true, default: string }): FieldDefinition<string, true, true>;
-function stringFn(opts: FieldOptions<string> & { optional: false, default: string }): FieldDefinition<string, true, true>;
-function stringFn(opts: FieldOptions<string> & { default: string }): FieldDefinition<string, true, true>;
+function stringFn(opts: FieldOptions<string> & { required: true, default: DefaultValue<string> }): FieldDefinition<string, true, true>;
+function stringFn(opts: FieldOptions<string> & { optional: false, default: DefaultValue<string> }): FieldDefinition<string, true, true>;
+function stringFn(opts: FieldOptions<string> & { default: DefaultValue<string> }): FieldDefinition<string, true, true>;
 
 // Overloads for required with no default: i.e. it exists on document and must be passed in
 function stringFn(): FieldDefinition<string, true, false>
@@ -12,18 +15,18 @@ function stringFn(opts: FieldOptions<string> & { required: true }): FieldDefinit
 function stringFn(opts: FieldOptions<string> & { optional: false }): FieldDefinition<string, true, false>
 
 // Overloads for optional wiwth default
-function stringFn(opts: FieldOptions<string> & { optional: true, default: string }): FieldDefinition<string, false, true>;
-function stringFn(opts: FieldOptions<string> & { required: false, default: string }): FieldDefinition<string, false, true>;
+function stringFn(opts: FieldOptions<string> & { optional: true, default: DefaultValue<string> }): FieldDefinition<string, false, true>;
+function stringFn(opts: FieldOptions<string> & { required: false, default: DefaultValue<string> }): FieldDefinition<string, false, true>;
 
 // Overloads for optional
 function stringFn(opts: FieldOptions<string> & { required: false }): FieldDefinition<string, false>;
 function stringFn(opts: FieldOptions<string> & { optional: true }): FieldDefinition<string, false>;
 
 // General definition
-function stringFn(opts: FieldOptions<string> & { optional?: boolean, default?: string }): FieldDefinition<string>
-function stringFn(opts: FieldOptions<string> & { required?: boolean, default?: string }): FieldDefinition<string>
+function stringFn(opts: FieldOptions<string> & { optional?: boolean, default?: DefaultValue<string> }): FieldDefinition<string>
+function stringFn(opts: FieldOptions<string> & { required?: boolean, default?: DefaultValue<string> }): FieldDefinition<string>
 
-function stringFn(opts?: FieldOptions<string> & { required?: boolean, optional?: boolean, default?: string }): any {
+function stringFn(opts?: FieldOptions<string> & { required?: boolean, optional?: boolean, default?: DefaultValue<string> }): any {
   if (!opts) return { _fieldIdentifier: FieldIdentifier.string, required: true }
 
   const { default: defaultVal, required, optional, ...rest } = opts
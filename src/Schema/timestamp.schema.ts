@@ -0,0 +1,70 @@
+import { FieldOptions, FieldDefinition, FieldIdentifier, DefaultValue, FieldFlags, RequiredByOptions, DefaultedByOptions } from "../types/field.types"
+
+/**
+ * A `Date` which is written to the database as
+ *  `ServerValue.TIMESTAMP`, so that the database sets it to
+ *  its own time. Until then, it holds the time on the client.
+ */
+export class ServerTimestamp extends Date {}
+
+/**
+ * The values a timestamp field can default to: a `Date`, epoch
+ *  millis, a function giving either for each document, or
+ *  `'serverNow'` for the time the document is written
+ */
+export type TimestampDefault = DefaultValue<Date | number> | 'serverNow'
+
+// Overload for readonly, hidden or coerce: marked on the definition, for the types of documents
+function timestampFn<O extends FieldOptions<Date> & ({ readonly: true } | { hidden: true } | { coerce: true }) & { required?: boolean, optional?: boolean, default?: TimestampDefault }>(opts: O): FieldDefinition<Date, RequiredByOptions<O>, DefaultedByOptions<O>> & FieldFlags<O>;
+
+// Overloads for required with default: i.e. it exists on document but need not be passed in
+function timestampFn(opts: FieldOptions<Date> & { required: true, default: TimestampDefault }): FieldDefinition<Date, true, true>;
+function timestampFn(opts: FieldOptions<Date> & { optional: false, default: TimestampDefault }): FieldDefinition<Date, true, true>;
+function timestampFn(opts: FieldOptions<Date> & { default: TimestampDefault }): FieldDefinition<Date, true, true>;
+
+// Overloads for required with no default: i.e. it exists on document and must be passed in
+function timestampFn(): FieldDefinition<Date, true, false>
+function timestampFn(opts: FieldOptions<Date>): FieldDefinition<Date, true, false>
+function timestampFn(opts: FieldOptions<Date> & { required: true }): FieldDefinition<Date, true, false>
+function timestampFn(opts: FieldOptions<Date> & { optional: false }): FieldDefinition<Date, true, false>
+
+// Overloads for optional with default
+function timestampFn(opts: FieldOptions<Date> & { optional: true, default: TimestampDefault }): FieldDefinition<Date, false, true>;
+function timestampFn(opts: FieldOptions<Date> & { required: false, default: TimestampDefault }): FieldDefinition<Date, false, true>;
+
+// Overloads for optional
+function timestampFn(opts: FieldOptions<Date> & { required: false }): FieldDefinition<Date, false>;
+function timestampFn(opts: FieldOptions<Date> & { optional: true }): FieldDefinition<Date, false>;
+
+// General definition
+function timestampFn(opts: FieldOptions<Date> & { optional?: boolean, default?: TimestampDefault }): FieldDefinition<Date>
+function timestampFn(opts: FieldOptions<Date> & { required?: boolean, default?: TimestampDefault }): FieldDefinition<Date>
+
+function timestampFn(opts?: FieldOptions<Date> & { required?: boolean, optional?: boolean, default?: TimestampDefault }): any {
+  if (!opts) return { _fieldIdentifier: FieldIdentifier.timestamp, required: true }
+
+  const { default: defaultVal, required, optional, ...rest } = opts
+
+  // @ts-ignore
+  let fieldConfig: FieldDefinition<Date> = { ...rest, _fieldIdentifier: FieldIdentifier.timestamp }
+
+  if (typeof defaultVal !== 'undefined') {
+    fieldConfig._hasDefault = true
+    // @ts-ignore : the default is made into a Date for each document
+    fieldConfig.default = defaultVal
+  } else {
+    fieldConfig._hasDefault = false
+  }
+
+  if (optional || required === false) {
+    fieldConfig.required = false
+  } else {
+    fieldConfig.required = true
+  }
+
+  return fieldConfig
+}
+
+const timestamp = Object.assign(timestampFn, timestampFn())
+
+export default timestamp
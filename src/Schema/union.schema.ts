@@ -0,0 +1,31 @@
+import { UnionFieldDefinition, ContainerFieldOptions, CreateFieldUnion, DefaultedByOptions, FieldFlags, FieldIdentifier, RequiredByOptions } from "../types/field.types"
+
+/**
+ * A field holding an object of one of several shapes, where the
+ *  value of a discriminator key selects the nested schema that
+ *  the rest of the object is checked against
+ * 
+ * @param discriminator - The key which selects the branch, e.g. 'type'
+ * @param branches - The nested schema of each branch, by the
+ *  discriminator's value
+ * @param opts - Whether the field is readonly, hidden or optional, its default and its validator
+ */
+const union = <K extends string, B extends { [value: string]: object }, O extends ContainerFieldOptions<any> = {}>(
+  discriminator: K,
+  branches: B,
+  opts?: O & ContainerFieldOptions<CreateFieldUnion<K, B>>
+): UnionFieldDefinition<K, B, RequiredByOptions<O>, DefaultedByOptions<O>> & FieldFlags<O> => {
+  const { default: defaultVal, required, optional, ...rest } = opts || {} as ContainerFieldOptions<any>
+  // @ts-ignore : the flags are spread from the options
+  return {
+    ...rest,
+    _fieldIdentifier: FieldIdentifier.union,
+    discriminator,
+    branches,
+    required: !(optional || required === false),
+    _hasDefault: typeof defaultVal !== 'undefined',
+    ...typeof defaultVal !== 'undefined' ? { default: defaultVal } : {}
+  }
+}
+
+export default union
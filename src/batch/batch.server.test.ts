@@ -0,0 +1,225 @@
+import ActiveClass from '../ActiveClass';
+import ActiveClassError from '../ActiveClass/Error';
+import Schema from '../Schema';
+import setupTestServer from '../utils/setupTestServer';
+import sleep from '../utils/sleep';
+import testExpectError from '../utils/testExpectError';
+import batch from '.';
+
+const { server } = setupTestServer()
+
+class Player extends ActiveClass({ name: Schema.string, age: Schema.number }) {}
+class Team extends ActiveClass({ name: Schema.string, playerIds: Schema.indexed.boolean }) {}
+
+describe('batch', () => {
+  beforeEach(async (done) => {
+    await Player.ref().set({})
+    await Team.ref().set({})
+    done()
+  })
+
+  test('creates, updates and deletes documents across classes in one commit', async (done) => {
+    const bob = await Player.create({ name: 'Bob', age: 20 })
+    const carl = await Player.create({ name: 'Carl', age: 30 })
+    let team: Team
+
+    const result = await batch(async b => {
+      team = b.create(Team, { name: 'Reds', playerIds: { [bob.getId()]: true } })
+      await b.update(Player, bob.getId(), { age: 21 })
+      b.delete(Player, carl.getId())
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(await server.getValue(Player.ref())).toEqual({
+      [bob.getId()]: { _id: bob.getId(), name: 'Bob', age: 21 }
+    })
+    // @ts-ignore : assigned in the batch
+    expect(await server.getValue(Team.ref(team.getId()))).toEqual(team.toObject())
+    done()
+  })
+
+  test('documents created in a batch sync once it has committed', async (done) => {
+    const player = await batch(b => b.create(Player, { name: 'Dan', age: 40 }))
+    player.age = 41
+    await sleep(200)
+    expect(await server.getValue(player.ref())).toEqual({ _id: player.getId(), name: 'Dan', age: 41 })
+    done()
+  })
+
+  test('updates to a document created in the same batch are merged into it', async (done) => {
+    const player = await batch(async b => {
+      const player = b.create(Player, { name: 'Eve', age: 50 })
+      await b.update(Player, player.getId(), { age: 51 })
+      return player
+    })
+    expect(await server.getValue(player.ref())).toEqual({ _id: player.getId(), name: 'Eve', age: 51 })
+    done()
+  })
+
+  test('updates write the values as checked', async (done) => {
+    class Member extends ActiveClass({ email: Schema.string({ trim: true }) }) {}
+    const member = await Member.create({ email: 'richard@example.com' })
+    await batch(b => b.update(Member, member.getId(), { email: ' rich@example.com ' }))
+    expect(await server.getValue(member.ref('email'))).toBe('rich@example.com')
+    done()
+  })
+
+  test('updates transform the props given, but not the values staged or current', async (done) => {
+    class Tally extends ActiveClass({
+      label: Schema.string,
+      points: Schema.number({ transform: (points: number) => points * 10 })
+    }) {}
+    const tally = await Tally.create({ label: 'Gryffindor', points: 1 })
+    await batch(async b => {
+      await b.update(Tally, tally.getId(), { points: 2 })
+      await b.update(Tally, tally.getId(), { label: 'Hufflepuff' })
+    })
+    expect(await server.getValue(tally.ref())).toMatchObject({ label: 'Hufflepuff', points: 20 })
+    done()
+  })
+
+  test('updates and saves bump updatedAt for classes with timestamps', async (done) => {
+    class Note extends ActiveClass({ text: Schema.string }, 'Note', { timestamps: true }) {}
+    const note = await Note.create({ text: 'Hello', createdAt: 1000, updatedAt: 1000 })
+    const draft = new Note({ text: 'Draft', createdAt: 1000, updatedAt: 1000 })
+    await batch(async b => {
+      await b.update(Note, note.getId(), { text: 'Goodbye' })
+      b.save(draft)
+    })
+    const [noteInDb, draftInDb] = await Promise.all([server.getValue(note.ref()), server.getValue(draft.ref())])
+    expect(noteInDb).toMatchObject({ text: 'Goodbye', createdAt: 1000 })
+    expect(noteInDb.updatedAt).toBeGreaterThan(1000)
+    expect(draftInDb).toMatchObject({ text: 'Draft', createdAt: 1000 })
+    expect(draftInDb.updatedAt).toBeGreaterThan(1000)
+    await Note.ref().set({})
+    done()
+  })
+
+  test('updates are made, in order, without being awaited', async (done) => {
+    const bob = await Player.create({ name: 'Bob', age: 20 })
+    await batch(b => {
+      b.update(Player, bob.getId(), { age: 21 })
+      b.update(Player, bob.getId(), { name: 'Robert' })
+    })
+    expect(await server.getValue(bob.ref())).toEqual({ _id: bob.getId(), name: 'Robert', age: 21 })
+    done()
+  })
+
+  test('saved documents are not written to before the batch commits', async (done) => {
+    const bob = await Player.create({ name: 'Bob', age: 20 })
+    await expect(batch(async b => {
+      b.save(bob)
+      await b.update(Player, bob.getId(), { age: 21 })
+      bob.name = 'Robert'
+      await sleep(100)
+      expect(await server.getValue(bob.ref())).toEqual({ _id: bob.getId(), name: 'Bob', age: 20 })
+      throw new Error('Changed my mind')
+    })).rejects.toThrow('Changed my mind')
+    await sleep(100)
+    expect(await server.getValue(bob.ref())).toEqual({ _id: bob.getId(), name: 'Bob', age: 20 })
+    // and it syncs as before once the batch is aborted
+    expect(bob.syncOpts().toDb).toBe(true)
+    done()
+  })
+
+  test('nothing is written if the callback throws', async (done) => {
+    const bob = await Player.create({ name: 'Bob', age: 20 })
+    await expect(batch(async b => {
+      b.delete(Player, bob.getId())
+      throw new Error('Changed my mind')
+    })).rejects.toThrow('Changed my mind')
+    expect(await server.getValue(bob.ref())).toEqual(bob.toObject())
+    done()
+  })
+
+  describe('invalid writes', () => {
+    testExpectError(
+      'Throws an error when creating a document that does not fit its schema',
+      async () => {
+        // @ts-ignore : checking for an error
+        await batch(b => { b.create(Player, { name: 'Frank', age: 'old' }) })
+      },
+      { message: /Could not create Player in batch/, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Throws an error when an update would not fit the schema',
+      async () => {
+        const bob = await Player.create({ name: 'Bob', age: 20 })
+        // @ts-ignore : checking for an error
+        await batch(b => b.update(Player, bob.getId(), { age: 'old' }))
+      },
+      { message: /Could not update Player in batch/, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Throws an error when updating a document that does not exist',
+      async () => {
+        await batch(b => b.update(Player, 'nonexistent', { age: 3 }))
+      },
+      { message: /No Player with that id exists/, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Throws an error when updating a document deleted in the same batch',
+      async () => {
+        const bob = await Player.create({ name: 'Bob', age: 20 })
+        await batch(async b => {
+          b.delete(Player, bob.getId())
+          await b.update(Player, bob.getId(), { age: 3 })
+        })
+      },
+      { message: /already been deleted/, constructor: ActiveClassError }
+    )
+
+    test('nothing is written when an update that is not awaited is invalid', async (done) => {
+      const bob = await Player.create({ name: 'Bob', age: 20 })
+      await expect(batch(b => {
+        b.create(Team, { name: 'Blues', playerIds: {} })
+        // @ts-ignore : checking for an error
+        b.update(Player, bob.getId(), { age: 'old' })
+      })).rejects.toThrow(/Could not update Player in batch/)
+      expect(await server.getValue(Team.ref())).toBeNull()
+      expect(await server.getValue(bob.ref())).toEqual(bob.toObject())
+      done()
+    })
+
+    test('nothing is written when a write fails an asynchronous validator', async (done) => {
+      class Member extends ActiveClass({
+        email: Schema.string({ validateAsync: async (email: string) => email !== 'taken@example.com' || 'is already taken' })
+      }, 'Member', {
+        validateAsync: async (member: any) => member.email !== 'banned@example.com'
+      }) {}
+      await Member.ref().set({})
+      const member = await Member.create({ email: 'richard@example.com' })
+
+      await expect(batch(b => {
+        b.create(Team, { name: 'Blues', playerIds: {} })
+        b.create(Member, { email: 'taken@example.com' })
+      })).rejects.toThrow(`Could not save Member in batch. The property 'email' failed its validate check: is already taken`)
+      await expect(batch(b => {
+        b.create(Team, { name: 'Blues', playerIds: {} })
+        b.update(Member, member.getId(), { email: 'banned@example.com' })
+      })).rejects.toThrow(`Could not update Member in batch. The document failed its validate check`)
+
+      expect(await server.getValue(Team.ref())).toBeNull()
+      expect(Object.values(await server.getValue(Member.ref()))).toEqual([member.toObject()])
+      await Member.ref().set({})
+      done()
+    })
+
+    test('nothing is written when any write is invalid', async (done) => {
+      const bob = await Player.create({ name: 'Bob', age: 20 })
+      await expect(batch(async b => {
+        b.create(Team, { name: 'Blues', playerIds: {} })
+        await b.update(Player, bob.getId(), { name: 'Robert' })
+        // @ts-ignore : checking for an error
+        await b.update(Player, bob.getId(), { age: null })
+      })).rejects.toThrow(ActiveClassError)
+      expect(await server.getValue(Team.ref())).toBeNull()
+      expect(await server.getValue(bob.ref())).toEqual(bob.toObject())
+      done()
+    })
+  })
+})
@@ -0,0 +1,202 @@
+import { pick, set } from 'lodash'
+import onChange from 'on-change'
+import { ActiveClass, ActiveDocument } from '../types/class.types'
+import { Batch } from '../types/batch.types'
+import { getFirebaseDatabase } from '../initialize/initialize'
+import ActiveClassError from '../ActiveClass/Error/ActiveClassError'
+import toDatabaseValue from '../utils/toDatabaseValue'
+import withUpdatedAt from '../utils/withUpdatedAt'
+import runValidators from '../ActiveClass/validation/runValidators'
+import prepareValue, { markPrepared } from '../ActiveClass/constructor/prepareValue'
+import { ServerTimestamp } from '../Schema/timestamp.schema'
+import { markPersisted, readonlyError, readonlyKeyIn } from '../ActiveClass/readonly/readonly'
+
+/**
+ * A write to a single document, waiting for the batch to commit
+ */
+type Staged =
+  | { type: 'set', document: ActiveDocument<any> }
+  | { type: 'update', current: object, props: object, document: ActiveDocument<any> }
+  | { type: 'remove' }
+
+/**
+ * Gather creates, updates and deletes across any number of
+ *  `ActiveClass`es, then commit them all at once as a single
+ *  multi-path update on the root of the database - so either
+ *  every write is made, or none of them are.
+ *
+ * Every document is checked against its schema as it is added
+ *  to the batch, and by its validators before the batch commits,
+ *  so nothing is written if any of them are invalid.
+ *
+ * @param callback - Adds writes to the batch
+ * @returns a `Promise` of the callback's result, once the batch has committed
+ */
+async function batch<T>(callback: (batch: Batch) => T | Promise<T>): Promise<T> {
+  // staged writes, keyed by the path of their document
+  const staged = new Map<string, Staged>()
+
+  // every write, staged one after another in the order they are made,
+  //  so that each update is checked against the writes before it
+  const pending: Promise<void>[] = []
+  let queue: Promise<void> = Promise.resolve()
+
+  const enqueue = (stage: () => void | Promise<void>): Promise<void> => {
+    const staging = queue.then(stage)
+    // a failed write fails the batch, even if the callback doesn't await it
+    queue = staging.catch(() => undefined)
+    pending.push(staging)
+    return staging
+  }
+
+  // documents saved in the batch don't sync until it commits, so that
+  //  nothing is written before then - with whether they synced before
+  const paused = new Map<Pick<ActiveDocument<any>, 'syncOpts'>, boolean>()
+  const pause = (document: Pick<ActiveDocument<any>, 'syncOpts'>) => {
+    if (!paused.has(document)) paused.set(document, document.syncOpts().toDb)
+    document.syncOpts({ toDb: false })
+  }
+
+  const pathTo = (ActiveClass: ActiveClass<any>, id: string) => `${ActiveClass.key}/${id}`
+
+  /**
+   * Check an update against the document's current values (or its
+   *  writes earlier in the batch) and its schema, and stage it
+   */
+  const stageUpdate = async (ActiveClass: ActiveClass<any>, id: string, props: object): Promise<void> => {
+    const what = `Could not update ${ActiveClass.name} in batch`
+    const path = pathTo(ActiveClass, id)
+    const write = staged.get(path)
+
+    if (write && write.type === 'remove') {
+      throw new ActiveClassError({
+        what,
+        why: `The ${ActiveClass.name} has already been deleted in this batch`
+      })
+    }
+
+    try {
+      if (write && write.type === 'set') {
+        // the document checks its own changes against the schema,
+        //  and doesn't sync them until the batch commits
+        Object.assign(write.document, withUpdatedAt(ActiveClass, props))
+        return
+      }
+
+      const readonlyKey = readonlyKeyIn(ActiveClass.schema, props)
+      if (readonlyKey) {
+        throw readonlyError(what, readonlyKey, ActiveClass.name)
+      }
+
+      const current = write
+        ? write.current
+        : (await ActiveClass.ref(id).once('value')).val()
+
+      if (!current) {
+        throw new ActiveClassError({
+          what,
+          why: `No ${ActiveClass.name} with that id exists in the connected Firebase Realtime Database`
+        })
+      }
+
+      // the props staged before, and the current values, are already prepared
+      const preparedProps = prepareValue(ActiveClass.schema, { ...props })
+      const allProps = withUpdatedAt(ActiveClass, write ? { ...write.props, ...preparedProps } : preparedProps)
+      const document = new ActiveClass(markPrepared({ ...current, ...allProps }))
+      // stage the values as checked, e.g. coerced and trimmed
+      const checkedProps = pick(document.toObject({ includeHidden: true }), Object.keys(allProps))
+      staged.set(path, { type: 'update', current, props: checkedProps, document })
+    } catch (err) {
+      throw ActiveClassError.from(err, { what })
+    }
+  }
+
+  const b: Batch = {
+    create(ActiveClass, props) {
+      try {
+        const document = new ActiveClass({ ...props })
+        // @ts-ignore : the document's types depend on its schema
+        enqueue(() => { staged.set(pathTo(ActiveClass, document.getId()), { type: 'set', document }) })
+        return document
+      } catch (err) {
+        throw ActiveClassError.from(err, {
+          what: `Could not create ${ActiveClass.name} in batch`
+        })
+      }
+    },
+
+    save(document) {
+      const ActiveClass = document.constructor
+      pause(document)
+      if (ActiveClass.options.timestamps) {
+        // set without syncing, as it is saved with the batch
+        set(onChange.target(document), 'updatedAt', new ServerTimestamp())
+      }
+      // @ts-ignore : the document's types depend on its schema
+      enqueue(() => { staged.set(pathTo(ActiveClass, document.getId()), { type: 'set', document }) })
+    },
+
+    update(ActiveClass, id, props) {
+      return enqueue(() => stageUpdate(ActiveClass, id, props))
+    },
+
+    delete(ActiveClass, id) {
+      enqueue(() => { staged.set(pathTo(ActiveClass, id), { type: 'remove' }) })
+    }
+  }
+
+  let result: T
+  try {
+    result = await callback(b)
+    await Promise.all(pending)
+
+    // validateAsync validators are only run here, on each document as it is written
+    await Promise.all(Array.from(staged.values()).map(async write => {
+      if (write.type === 'remove') return
+      try {
+        await runValidators(write.document)
+      } catch (err) {
+        throw ActiveClassError.from(err, {
+          what: `Could not ${write.type === 'set' ? 'save' : 'update'} ${write.document.constructor.name} in batch`
+        })
+      }
+    }))
+
+    const updates: { [path: string]: any } = {}
+    staged.forEach((write, path) => {
+      if (write.type === 'set') {
+        updates[path] = toDatabaseValue(write.document.toObject({ includeHidden: true }))
+      } else if (write.type === 'update') {
+        Object.keys(write.props).forEach(key => {
+          updates[`${path}/${key}`] = toDatabaseValue(write.props[key as keyof typeof write.props])
+        })
+      } else {
+        updates[path] = null
+      }
+    })
+
+    if (Object.keys(updates).length) {
+      try {
+        await getFirebaseDatabase().ref().update(updates)
+      } catch (err) {
+        throw ActiveClassError.from(err, { what: 'Could not commit batch' })
+      }
+    }
+  } catch (err) {
+    // an aborted batch leaves its documents syncing as they did before
+    paused.forEach((toDb, document) => document.syncOpts({ toDb }))
+    throw err
+  }
+
+  // documents sync by default once saved, as with `create`
+  staged.forEach(write => {
+    if (write.type === 'set') {
+      markPersisted(write.document)
+      write.document.syncOpts({ fromDb: true, toDb: true })
+    }
+  })
+
+  return result
+}
+
+export default batch
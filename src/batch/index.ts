@@ -0,0 +1,3 @@
+import batch from "./batch";
+
+export default batch
\ No newline at end of file
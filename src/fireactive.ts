@@ -3,6 +3,8 @@ import ActiveClass from './ActiveClass'
 import initialize from './initialize';
 import Schema from './Schema';
 import relations from './ActiveClass/relations';
+import batch from './batch';
+import { ValidationError } from './ActiveClass/Error';
 
 dotenv.config()
 
@@ -10,14 +12,18 @@ const Fireactive = {
   initialize,
   ActiveClass,
   Schema,
-  relations
+  relations,
+  batch,
+  ValidationError
 }
 
 export {
   initialize,
   ActiveClass,
   Schema,
-  relations
+  relations,
+  batch,
+  ValidationError
 }
 
 export default Fireactive
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { ActiveClass, ActiveDocument, ClassDefinition } from "./class.types"
+import { DocumentSchema, ToCreateDocument, UpdateProps } from "./schema.types"
+
+/**
+ * Gathers writes across any number of `ActiveClass`es, to be
+ *  committed together as a single multi-path update, once every
+ *  document written has passed its (asynchronous) validators
+ */
+export interface Batch {
+  /**
+   * Create a new document, to be saved when the batch commits.
+   *  The document starts syncing to and from the database once
+   *  the batch has committed.
+   * 
+   * @param ActiveClass - The `ActiveClass` of the document
+   * @param props - Properties to create the document with
+   * @returns the created (but not yet saved) document
+   */
+  create<S extends DocumentSchema, I extends ActiveDocument<S>>(ActiveClass: ActiveClass<S> & ClassDefinition<I>, props: ToCreateDocument<S> & { _id?: string }): I,
+
+  /**
+   * Save a document in its entirety when the batch commits.
+   *  Changes to the document don't sync to the database until then.
+   * 
+   * @param document - The `ActiveDocument` to save
+   */
+  save<S extends DocumentSchema>(document: ActiveDocument<S>): void,
+
+  /**
+   * Update a document in the database when the batch commits.
+   *  The update is checked against the document's current values
+   *  and its schema straight away.
+   * 
+   * @param ActiveClass - The `ActiveClass` of the document
+   * @param id - The `_id` of the document
+   * @param props - Properties to update
+   * @returns a `Promise` that resolves once the update is checked,
+   *  which the batch waits for (and fails with) before committing,
+   *  whether or not it is awaited
+   */
+  update<S extends DocumentSchema>(ActiveClass: ActiveClass<S>, id: string, props: UpdateProps<S>): Promise<void>,
+
+  /**
+   * Delete a document from the database when the batch commits
+   * 
+   * @param ActiveClass - The `ActiveClass` of the document
+   * @param id - The `_id` of the document
+   */
+  delete<S extends DocumentSchema>(ActiveClass: ActiveClass<S>, id: string): void
+}
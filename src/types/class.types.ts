@@ -1,13 +1,36 @@
-import { DocumentSchema, ObjectFromDocument, ToCreateDocument, DocumentProps, FirebaseTable } from "./schema.types"
+import { DocumentSchema, ObjectFromDocument, VisibleObjectFromDocument, ToCreateDocument, UpdateProps, FirebaseTable, TimestampsSchema } from "./schema.types"
 import { SyncOpts } from "./sync.types"
+import { ActiveQuery, PaginateOpts, Page, MatchProps, WatchCallback } from "./query.types"
+import { TransactionMutator } from "./transaction.types"
+import { Relatable } from "./relations.types"
+import { ValidatorResult } from "./field.types"
+import { ValidationIssue } from "./validation.types"
 
 export type ClassDefinition<T = unknown> = { new(...args: any[]): T; };
 
+type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends ((k: infer I) => void) ? I : never
+
+/**
+ * The accessor added to a document by a `Schema.ref` field, if it is named
+ *  with `as` - the default name (the field's without its `Id` suffix)
+ *  can't be worked out from the field's name in the type system
+ */
+type RefAccessor<FD> = FD extends { ref: Relatable<ClassDefinition<infer I>>, as: infer A }
+  ? A extends string ? { [P in A]: () => Promise<I | null> } : {}
+  : {}
+
+/**
+ * The accessors added to a document by the `Schema.ref` fields of its schema
+ * 
+ * @template S - a DocumentSchema
+ */
+export type RefAccessors<S extends DocumentSchema> = UnionToIntersection<{ [K in keyof S]: RefAccessor<S[K]> }[keyof S]>
+
 /**
  * An `ActiveDocument<S>` _instance_ of the `ActiveClass<S>`. 
  * This interface holds the instance methods and properties.
  */
-export type ActiveDocument<S extends DocumentSchema = DocumentSchema> = ObjectFromDocument<S> & {
+export type ActiveDocument<S extends DocumentSchema = DocumentSchema> = ObjectFromDocument<S> & RefAccessors<S> & {
   constructor: ActiveClass<S>
 
   /**
@@ -18,6 +41,27 @@ export type ActiveDocument<S extends DocumentSchema = DocumentSchema> = ObjectFr
    */
   getId(): string,
 
+  /**
+   * Atomically add to a number field in Firebase. The instance is
+   *  updated straight away, and settles to the value in Firebase
+   *  when it next syncs from the database. The instance must
+   *  already be saved.
+   * 
+   * @param path - the path to the number field, e.g. 'stats.wins'
+   * @param delta - the amount to add (1 by default)
+   */
+  increment(path: string, delta?: number): Promise<void>,
+
+  /**
+   * Atomically subtract from a number field in Firebase. The instance
+   *  is updated straight away, and settles to the value in Firebase
+   *  when it next syncs from the database.
+   * 
+   * @param path - the path to the number field, e.g. 'stats.wins'
+   * @param delta - the amount to subtract (1 by default)
+   */
+  decrement(path: string, delta?: number): Promise<void>,
+
   /**
    * Reloads the instance's properties from the Firebase database
    * 
@@ -49,6 +93,15 @@ export type ActiveDocument<S extends DocumentSchema = DocumentSchema> = ObjectFr
    */
   saveAndSync(syncOpts?: Partial<SyncOpts>): Promise<ObjectFromDocument<S>>,
 
+  /**
+   * Atomically update the instance in Firebase from its current
+   *  values there, then update the instance with the values committed
+   * 
+   * @param mutator - Computes the new values from the current values
+   * @returns the values committed, or `null` if the mutator aborted
+   */
+  transaction(mutator: TransactionMutator<S>): Promise<ObjectFromDocument<S> | null>,
+
   /**
    * A promise resolved when all pending setter promises to
    *  the database have been completed
@@ -90,15 +143,65 @@ export type ActiveDocument<S extends DocumentSchema = DocumentSchema> = ObjectFr
 
 
   /**
-   * Return the raw object properties (as schematised)
+   * Return the raw object properties (as schematised),
+   *  including those of hidden fields
+   * @param opts.includeHidden - whether to include hidden fields
    * @returns an object with type properties `ObjectFromDocument<S>`
    */
-  toObject(): ObjectFromDocument<S>
+  toObject(opts: { includeHidden: true }): ObjectFromDocument<S>
+
+  /**
+   * Return the raw object properties (as schematised),
+   *  leaving out those of hidden fields unless asked for
+   * @param opts.includeHidden - whether to include hidden fields
+   * @returns an object with type properties `VisibleObjectFromDocument<S>`
+   */
+  toObject(opts?: { includeHidden?: boolean }): VisibleObjectFromDocument<S>
+
+  /**
+   * Return the properties to serialise with `JSON.stringify`,
+   *  which leave out those of hidden fields
+   * @returns an object with type properties `VisibleObjectFromDocument<S>`
+   */
+  toJSON(): VisibleObjectFromDocument<S>
 }
 
 
 
 
+/**
+ * Options for creating an `ActiveClass`
+ */
+export interface ActiveClassOptions {
+  /**
+   * Whether to add `createdAt` and `updatedAt` timestamp fields,
+   *  which are set to the database's time when a document is
+   *  created, and `updatedAt` again whenever it is written to
+   *  (`createdAt` is readonly)
+   */
+  timestamps?: boolean,
+
+  /**
+   * A custom check on the whole document, for rules across fields
+   */
+  validate?: (document: any) => ValidatorResult,
+
+  /**
+   * An asynchronous custom check on the whole document, which is
+   *  only awaited before writes
+   */
+  validateAsync?: (document: any) => Promise<ValidatorResult>
+}
+
+/**
+ * The schema of an `ActiveClass` created with options `O`
+ *
+ * @template S - a DocumentSchema
+ * @template O - the `ActiveClassOptions`
+ */
+export type SchemaWithOptions<S extends DocumentSchema, O extends ActiveClassOptions> =
+  O extends { timestamps: true } ? S & TimestampsSchema : S
+
 /**
  * A _class_ to create `ActiveDocument<S>` instances from the `DocumentSchema`, `S`. 
  * This interface holds the static class methods and properties.
@@ -120,6 +223,11 @@ export type ActiveClass<S extends DocumentSchema = DocumentSchema> = {
    */
   readonly schema: Readonly<S>,
 
+  /**
+   * The options the `ActiveClass` was created with
+   */
+  readonly options: Readonly<ActiveClassOptions>,
+
   /**
    * The 'table' key which this model uses in the Firebase RTD.
    */
@@ -158,7 +266,7 @@ export type ActiveClass<S extends DocumentSchema = DocumentSchema> = {
    * @param props Properties to create the Document with
    * @returns a `Promise` that resolves with the count of deleted documents
    */
-  delete(props: Partial<ObjectFromDocument<S>>): Promise<number>,
+  delete(props: MatchProps<S>): Promise<number>,
 
   /**
    * Delete the first `ActiveDocument` from the database that
@@ -167,7 +275,7 @@ export type ActiveClass<S extends DocumentSchema = DocumentSchema> = {
    * @param props Properties to create the Document with
    * @returns a `Promise` that resolves to whether or not a document was deleted
    */
-  deleteOne(props: Partial<ObjectFromDocument<S>>): Promise<boolean>,
+  deleteOne(props: MatchProps<S>): Promise<boolean>,
 
   /**
    * Find all `ActiveDocument`s from the database that
@@ -176,7 +284,7 @@ export type ActiveClass<S extends DocumentSchema = DocumentSchema> = {
    * @param props 
    * @returns an array of `ActiveDocument<S>`
    */
-  find<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, props: Partial<ObjectFromDocument<S>>): Promise<InstanceType<ThisClass>[]>,
+  find<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, props: MatchProps<S>): Promise<InstanceType<ThisClass>[]>,
 
   /**
    * Find a single ActiveDocument in the database by id
@@ -202,7 +310,7 @@ export type ActiveClass<S extends DocumentSchema = DocumentSchema> = {
    * @param props 
    * @returns the `ActiveDocument` found, or `null` if no document was found
    */
-  findOne<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, props: Partial<ObjectFromDocument<S>>): Promise<InstanceType<ThisClass> | null>,
+  findOne<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, props: MatchProps<S>): Promise<InstanceType<ThisClass> | null>,
 
   /**
    * Create an `ActiveDocument` from some props, such that it
@@ -224,6 +332,26 @@ export type ActiveClass<S extends DocumentSchema = DocumentSchema> = {
    */
   getDb(): firebase.database.Database,
 
+  /**
+   * Retrieve a page of documents from the table, ordered by a field
+   *  (or by `_id`), starting after the cursor of a previous page
+   * 
+   * @param opts.orderBy - the field to order by
+   * @param opts.pageSize - the maximum number of documents in the page
+   * @param opts.after - the `nextCursor` of the previous page
+   * @returns the page's `items`, along with the `nextCursor` to get
+   *  the following page and whether it `hasMore`
+   */
+  paginate<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, opts: PaginateOpts<S>): Promise<Page<InstanceType<ThisClass>>>,
+
+  /**
+   * Start a chainable query on the table, e.g.
+   *  `Player.query().where('score', '>=', 10).limitToLast(5)`
+   * 
+   * @returns an `ActiveQuery` which resolves to an array of `ActiveDocument<S>`
+   */
+  query<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass): ActiveQuery<S, InstanceType<ThisClass>>,
+
   /**
    * Get a `Reference` for the table and/or a child within it
    * 
@@ -233,6 +361,37 @@ export type ActiveClass<S extends DocumentSchema = DocumentSchema> = {
    */
   ref(path?: string): firebase.database.Reference,
 
+  /**
+   * Atomically add to a number field of an `ActiveDocument`
+   *  in the database - in a transaction, if the field has a
+   *  `min`, `max` or `multipleOf` which the result must meet
+   * 
+   * @param id - the `_id` of the `ActiveDocument`, which must exist
+   * @param path - the path to the number field, e.g. 'stats.wins'
+   * @param delta - the amount to add (1 by default)
+   */
+  increment(id: string, path: string, delta?: number): Promise<void>,
+
+  /**
+   * Atomically subtract from a number field of an `ActiveDocument`
+   *  in the database
+   * 
+   * @param id - the `_id` of the `ActiveDocument`
+   * @param path - the path to the number field, e.g. 'stats.wins'
+   * @param delta - the amount to subtract (1 by default)
+   */
+  decrement(id: string, path: string, delta?: number): Promise<void>,
+
+  /**
+   * Atomically update an `ActiveDocument` in the database from
+   *  its current values there
+   * 
+   * @param id - the `_id` of the `ActiveDocument`
+   * @param mutator - Computes the new values from the current values
+   * @returns the updated `ActiveDocument`, or `null` if the mutator aborted
+   */
+  transaction<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, id: string, mutator: TransactionMutator<S>): Promise<InstanceType<ThisClass> | null>,
+
   /**
    * Updates all `ActiveDocument`s from the database that
    *  match the passed in `matchProps` with `updateProps`
@@ -241,7 +400,7 @@ export type ActiveClass<S extends DocumentSchema = DocumentSchema> = {
    * @param updateProps - props to update
    * @returns an array of `ActiveDocument<S>` that were updated
    */
-  update<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, matchProps: Partial<ObjectFromDocument<S>>, updateProps: Partial<DocumentProps<S>>): Promise<InstanceType<ThisClass>[]>
+  update<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, matchProps: MatchProps<S>, updateProps: UpdateProps<S>): Promise<InstanceType<ThisClass>[]>
 
   /**
    * Update a single ActiveDocument in the database by
@@ -252,9 +411,83 @@ export type ActiveClass<S extends DocumentSchema = DocumentSchema> = {
    * @param updateProps - props to update
    * @returns the updated `ActiveDocument` if there is one, or `null` otherwise
    */
-  updateOne<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, matchProps: Partial<ObjectFromDocument<S>>, updateProps: Partial<DocumentProps<S>>): Promise<InstanceType<ThisClass> | null>,
+  updateOne<ThisClass extends ActiveClass<S> = ActiveClass<S>>(this: ThisClass, matchProps: MatchProps<S>, updateProps: UpdateProps<S>): Promise<InstanceType<ThisClass> | null>,
 
+  /**
+   * Check some props against the schema and the synchronous
+   *  validators, without constructing a document or throwing
+   * 
+   * @param props - props to check
+   * @returns every issue with the props, or an empty array if they are valid
+   */
+  validate(props: object): ValidationIssue[],
 
-  value(props: Partial<ObjectFromDocument<S>>): Promise<ObjectFromDocument<S> | null>
-  values(props?: Partial<ObjectFromDocument<S>>): Promise<ObjectFromDocument<S>[]>,
+  /**
+   * Watch the documents that match some props or a query, in realtime.
+   * 
+   * The callback is first called with the current matching documents,
+   *  and then again with the updated results each time a document is
+   *  added to, changed within or removed from them. Documents whose
+   *  values don't fit the schema are left out of the results.
+   * 
+   * @param propsOrQuery - props to match by, or an `ActiveQuery`
+   * @param callback - called with the results and the latest change
+   * @returns a function which stops watching
+   */
+  watch<ThisClass extends ActiveClass<S> = ActiveClass<S>>(
+    this: ThisClass,
+    propsOrQuery: MatchProps<S> | ActiveQuery<S, any>,
+    callback: WatchCallback<InstanceType<ThisClass>>
+  ): () => void,
+
+  /**
+   * Retrieve the raw values of the first document in the database
+   *  that matches the passed in `props`, leaving out hidden fields
+   * 
+   * @param props - props to match by
+   * @param opts.includeHidden - `false` to leave out hidden fields
+   * @returns the values of the first matching document, or `null` if none
+   */
+  value(props: MatchProps<S> | undefined, opts: { includeHidden: false }): Promise<VisibleObjectFromDocument<S> | null>
+
+  /**
+   * Retrieve the raw values of the first document in the database
+   *  that matches the passed in `props`
+   * 
+   * @param props - props to match by
+   * @param opts.includeHidden - `false` to leave out hidden fields
+   * @returns the values of the first matching document, or `null` if none
+   */
+  value(props: MatchProps<S>, opts?: { includeHidden?: boolean }): Promise<ObjectFromDocument<S> | null>
+
+  /**
+   * Retrieve the raw values of all documents in the database that
+   *  match the passed in `props` (or of the whole table if no `props`
+   *  are passed), leaving out hidden fields
+   * 
+   * @param props - props to match by
+   * @param opts.includeHidden - `false` to leave out hidden fields
+   * @returns an array of the values of matching documents
+   */
+  values(props: MatchProps<S> | undefined, opts: { includeHidden: false }): Promise<VisibleObjectFromDocument<S>[]>
+
+  /**
+   * Retrieve the raw values of all documents in the database that
+   *  match the passed in `props`, or of the whole table if no `props`
+   *  are passed.
+   * 
+   * Each field in `props` is matched either exactly by a value, or by
+   *  an object of operators, e.g. `{ age: { $gte: 18 } }`.
+   * 
+   * An exact match (or a range) on a top-level field is queried for
+   *  with `orderByChild(field)`, so that only candidate documents are
+   *  downloaded (add an `.indexOn` rule for the field to have the
+   *  server do this efficiently). Any other props are matched on the
+   *  client.
+   * 
+   * @param props - props to match by
+   * @param opts.includeHidden - `false` to leave out hidden fields
+   * @returns an array of the values of matching documents
+   */
+  values(props?: MatchProps<S>, opts?: { includeHidden?: boolean }): Promise<ObjectFromDocument<S>[]>,
 }
\ No newline at end of file
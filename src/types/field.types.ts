@@ -1,21 +1,325 @@
 import { UndefinedToOptional } from "./util.types"
+import { ClassDefinition } from "./class.types"
+import { Relatable } from "./relations.types"
+import { DocumentSchema } from "./schema.types"
 
-export interface FieldOptions<T> {
-  // default?: T,
+/**
+ * Named formats that a string field can be checked against
+ */
+export type StringFormat = 'email' | 'url' | 'uuid' | 'slug'
+
+export interface StringFieldOptions {
+  /**
+   * The fewest characters the string can have
+   */
+  minLength?: number,
+
+  /**
+   * The most characters the string can have
+   */
+  maxLength?: number,
+
+  /**
+   * A pattern which the string must match
+   */
+  pattern?: RegExp,
+
+  /**
+   * A named format which the string must match
+   */
+  format?: StringFormat,
+
+  /**
+   * Whether to trim whitespace from the string before checking it
+   */
+  trim?: boolean
+}
+
+export interface NumberFieldOptions {
+  /**
+   * The smallest value the number can take
+   */
+  min?: number,
+
+  /**
+   * The largest value the number can take
+   */
+  max?: number,
+
+  /**
+   * Whether the number must be an integer
+   */
+  integer?: boolean,
+
+  /**
+   * Whether the number must be finite, i.e. not `NaN` or `Infinity`
+   *  (defaults to `true`)
+   */
+  finite?: boolean,
+
+  /**
+   * A number which the number must be a multiple of
+   */
+  multipleOf?: number
+}
+
+export interface CoerceFieldOptions {
+  /**
+   * Whether to convert strings (e.g. from forms or query strings)
+   *  to the field's type before checking them
+   */
+  coerce?: boolean
+}
+
+/**
+ * A default value, or a function which gives a default value for
+ *  each document (e.g. a random code)
+ * 
+ * @template T - the type of the default value
+ */
+export type DefaultValue<T> = T | (() => T)
+
+/**
+ * What a validator returns: `false`, or a message saying why, if
+ *  the value is invalid
+ */
+export type ValidatorResult = boolean | string | void
+
+/**
+ * A custom check on a value, which is run whenever the value is checked
+ * 
+ * @template T - the type of the value checked
+ */
+export type Validator<T> = (value: T, document: any) => ValidatorResult
+
+/**
+ * An asynchronous custom check on a value (e.g. to look up whether
+ *  the value is unique), which is only awaited before writes
+ * 
+ * @template T - the type of the value checked
+ */
+export type AsyncValidator<T> = (value: T, document: any) => Promise<ValidatorResult>
+
+/**
+ * A change to a value before it is checked, e.g. lowercasing
+ * 
+ * @template T - the type of the value changed
+ */
+export type Transform<T> = (value: T) => T
+
+export type FieldOptions<T> = (
+  T extends string ? StringFieldOptions
+  : T extends number ? NumberFieldOptions & CoerceFieldOptions
+  : T extends boolean ? CoerceFieldOptions
+  : T extends Date ? CoerceFieldOptions
+  : {}
+) & {
+  /**
+   * A change to the field's value before it is checked, which is
+   *  given any value of the field's type (after any coercion).
+   *  It is applied to each value as it is given - on creation, on
+   *  assignment and in updates - and not to values from the database.
+   */
+  transform?: Transform<T extends Array<infer E> ? E : T>,
+
+  /**
+   * A custom check on the field's value, which is given any value
+   *  other than `null` or `undefined`, and the document
+   */
+  validate?: Validator<T extends Array<infer E> ? E : T>,
+
+  /**
+   * An asynchronous custom check on the field's value, as for
+   *  `validate`, which is only awaited before writes
+   */
+  validateAsync?: AsyncValidator<T extends Array<infer E> ? E : T>,
+
+  /**
+   * Whether the field cannot be changed once the document is saved
+   */
+  readonly?: boolean,
+
+  /**
+   * Whether the field is left out when the document is serialised,
+   *  e.g. by `toObject()` or `toJSON()` (it is still stored and synced)
+   */
+  hidden?: boolean
+}
+
+/**
+ * Whether the options of a field make it required on the document
+ * 
+ * @template O - the options passed for the field
+ */
+export type RequiredByOptions<O> =
+  O extends { required: false } ? false
+  : O extends { optional: true } ? false
+  : true
+
+/**
+ * Whether the options of a field give it a default value
+ * 
+ * @template O - the options passed for the field
+ */
+export type DefaultedByOptions<O> = O extends { default: any } ? true : false
+
+/**
+ * The options of a field which change the types of documents,
+ *  for marking on the field's definition
+ * 
+ * @template O - the options passed for the field
+ */
+export type FieldFlags<O> =
+  (O extends { readonly: true } ? { readonly: true } : {})
+  & (O extends { hidden: true } ? { hidden: true } : {})
+  & (O extends { coerce: true } ? { coerce: true } : {})
+
+/**
+ * The options of fields which hold other fields - indexes, arrays
+ *  and unions - which are those shared by fields of every type
+ * 
+ * @template T - the type of the field's values, for its default
+ */
+export interface ContainerFieldOptions<T> {
+  /**
+   * Whether the field cannot be changed once the document is saved
+   */
+  readonly?: boolean,
+
+  /**
+   * Whether the field is left out when the document is serialised,
+   *  e.g. by `toObject()` or `toJSON()` (it is still stored and synced)
+   */
+  hidden?: boolean,
+
+  /**
+   * Whether the field must hold a value (the default)
+   */
+  required?: boolean,
+
+  /**
+   * Whether the field can be left without a value, or set to `null`
+   */
+  optional?: boolean,
+
+  /**
+   * A default value, or a function which gives a default value for
+   *  each document
+   */
+  default?: DefaultValue<T>,
+
+  /**
+   * A custom check on the field's value as a whole, which is given
+   *  any value other than `null` or `undefined`, and the document
+   */
+  validate?: Validator<T>,
+
+  /**
+   * An asynchronous custom check on the field's value as a whole,
+   *  as for `validate`, which is only awaited before writes
+   */
+  validateAsync?: AsyncValidator<T>
 }
 
 /**
  * @template T - field core type, e.g. string
  * @template R - is field required on the document?
- * @template D - does the field initialise with a default value?
  */
-export interface IndexedFieldDefinition<T = any> {
+export interface IndexedFieldDefinition<T = any, R extends boolean = boolean> {
   _fieldIdentifier: FieldIdentifier.indexed,
   indexed: FieldDefinition<T>,
+  required: R,
   _hasDefault: true,
-  default: {}
+  default: DefaultValue<object>,
+  readonly?: boolean,
+  hidden?: boolean,
+  validate?: Validator<object>,
+  validateAsync?: AsyncValidator<object>
+}
+
+/**
+ * @template S - the nested schema of every value
+ * @template R - is field required on the document?
+ */
+export interface IndexedSchemaFieldDefinition<S = any, R extends boolean = boolean> {
+  _fieldIdentifier: FieldIdentifier.indexed,
+  indexed: S,
+  required: R,
+  _hasDefault: true,
+  default: DefaultValue<object>,
+  readonly?: boolean,
+  hidden?: boolean,
+  validate?: Validator<object>,
+  validateAsync?: AsyncValidator<object>
+}
+
+/**
+ * @template E - the field definition (or nested schema) of the elements
+ * @template R - is field required on the document?
+ */
+export interface ArrayFieldDefinition<E = any, R extends boolean = boolean> {
+  _fieldIdentifier: FieldIdentifier.array,
+  elements: E,
+  required: R,
+  _hasDefault: true,
+  default: DefaultValue<any[]>,
+  readonly?: boolean,
+  hidden?: boolean,
+  validate?: Validator<any[]>,
+  validateAsync?: AsyncValidator<any[]>
+}
+
+/**
+ * @template K - the key of the discriminator, e.g. 'type'
+ * @template B - the nested schema of each branch, by discriminator value
+ * @template R - is field required on the document?
+ * @template D - does the field initialise with a default value?
+ */
+export interface UnionFieldDefinition<K extends string = string, B = {}, R extends boolean = boolean, D extends boolean = boolean> {
+  _fieldIdentifier: FieldIdentifier.union,
+  discriminator: K,
+  branches: B,
+  required: R,
+  _hasDefault: D,
+  default?: DefaultValue<object>,
+  readonly?: boolean,
+  hidden?: boolean,
+  validate?: Validator<object>,
+  validateAsync?: AsyncValidator<object>
+}
+
+/**
+ * @template T - the type of the JSON value
+ * @template R - is field required on the document?
+ * @template D - does the field initialise with a default value?
+ */
+export interface JsonFieldDefinition<T = unknown, R extends boolean = boolean, D extends boolean = boolean> {
+  _fieldIdentifier: FieldIdentifier.json,
+  required: R,
+  _hasDefault: D,
+  default?: DefaultValue<T>,
+  transform?: Transform<T>,
+  validate?: Validator<T>,
+  validateAsync?: AsyncValidator<T>,
+  readonly?: boolean,
+  hidden?: boolean,
+  // never set, but holds the type of the value
+  _type?: T
 }
 
+/**
+ * A string field holding the `_id` of a document of another `ActiveClass`
+ * 
+ * @template I - the instance type of the other `ActiveClass`
+ * @template A - the name of the accessor for the document (never if unnamed)
+ * @template R - is field required on the document?
+ */
+export type RefFieldDefinition<I = unknown, A extends string = never, R extends boolean = boolean> =
+  FieldDefinition<string, R, false> & {
+    ref: Relatable<ClassDefinition<I>>,
+    as: A
+  }
+
 /**
  * @template T - field core type, e.g. string
  * @template R - is field required on the document?
@@ -24,9 +328,10 @@ export interface IndexedFieldDefinition<T = any> {
 export type FieldDefinition<T = any, R extends boolean = boolean, D extends boolean = boolean> =
   // handle indexed case first
   T extends { [key: string]: infer U } ? { _fieldIdentifier: FieldIdentifier.indexed, indexed: U, required: R }
-    // if not indexed, then it's number, boolean, enum or string
+    // if not indexed, then it's timestamp, number, boolean, enum or string
     : FieldOptions<T> & {
-      _fieldIdentifier: T extends number ? FieldIdentifier.number
+      _fieldIdentifier: T extends Date ? FieldIdentifier.timestamp
+      : T extends number ? FieldIdentifier.number
       : T extends true ? FieldIdentifier.true
       : T extends boolean ? FieldIdentifier.boolean
       // we pass an array for an enum
@@ -35,15 +340,32 @@ export type FieldDefinition<T = any, R extends boolean = boolean, D extends bool
       : unknown
     } & {
       required: R
-  } & (D extends true ? { _hasDefault: true, default: T extends Array<infer E> ? E : T } : { _hasDefault: D, default?: T extends Array<infer E> ? E : T })
+  } & (D extends true ? { _hasDefault: true, default: DefaultValue<T extends Array<infer E> ? E : T> } : { _hasDefault: D, default?: DefaultValue<T extends Array<infer E> ? E : T> })
       & (T extends Array<infer E> ? { vals: E[] } : {})
 
+/**
+ * A field definition of any kind, as met when walking a schema, which
+ *  is narrowed on its `_fieldIdentifier`
+ */
+export type AnyFieldDefinition =
+  | FieldDefinition<string>
+  | FieldDefinition<number>
+  | FieldDefinition<boolean>
+  | FieldDefinition<Date>
+  | FieldDefinition<Array<string | number>>
+  | IndexedFieldDefinition
+  | IndexedSchemaFieldDefinition
+  | ArrayFieldDefinition
+  | UnionFieldDefinition<string, { [key: string]: DocumentSchema }>
+  | JsonFieldDefinition<any>
+
 export type FieldType<FI, T = unknown> =
   FI extends FieldIdentifier.true ? true
     : FI extends FieldIdentifier.boolean ? boolean
     : FI extends boolean ? boolean
     : FI extends FieldIdentifier.number ? number
     : FI extends number ? number
+    : FI extends FieldIdentifier.timestamp ? Date
     // if it's an enum, we intend to pass the union type as T
     : FI extends FieldIdentifier.enum ? T
     : FI extends FieldIdentifier.indexed ? { [key: string]: T }
@@ -58,12 +380,17 @@ export enum FieldIdentifier {
   boolean = 'BOOLEAN_FIELD_IDENTIFIER',
   enum = 'ENUM_FIELD_IDENTIFIER',
   indexed = 'INDEXED_FIELD_IDENTIFIER',
-  true = 'TRUE_FIELD_IDENTIFIER'
+  true = 'TRUE_FIELD_IDENTIFIER',
+  timestamp = 'TIMESTAMP_FIELD_IDENTIFIER',
+  array = 'ARRAY_FIELD_IDENTIFIER',
+  union = 'UNION_FIELD_IDENTIFIER',
+  json = 'JSON_FIELD_IDENTIFIER'
 }
 
 export type TypeFromIdentifier<T, U = unknown> =
   T extends FieldIdentifier.string ? string
   : T extends FieldIdentifier.number ? number
+  : T extends FieldIdentifier.timestamp ? Date
   : T extends FieldIdentifier.true ? true
   : T extends FieldIdentifier.boolean ? boolean
   // if it's an enum, hopefully we pass along the enum values...
@@ -74,10 +401,94 @@ export type TypeFromIdentifier<T, U = unknown> =
       : { [key: string]: U } 
   : unknown
 
+// interfaces, rather than `DocumentField<E>[]`, let the field types refer to themselves
+export interface DocumentFieldArray<E> extends Array<DocumentField<E>> {}
+export interface CreateFieldArray<E> extends Array<CreateField<E>> {}
+export interface DocumentFieldIndex<S> { [key: string]: DocumentField<S> }
+export interface CreateFieldIndex<S> { [key: string]: CreateField<S> }
+
+/**
+ * The value of a union field: the values of any one branch,
+ *  with the discriminator set to that branch's key
+ */
+export type DocumentFieldUnion<K extends string, B> = {
+  [V in keyof B]: { [P in K]: V } & DocumentField<B[V]>
+}[keyof B]
+
+/**
+ * The value taken by a union field on initialisation
+ */
+export type CreateFieldUnion<K extends string, B> = {
+  [V in keyof B]: { [P in K]: V } & CreateField<B[V]>
+}[keyof B]
+
+/**
+ * The keys of the readonly fields of a schema
+ * 
+ * @template S - a schema of fields
+ */
+export type ReadonlyKeys<S> = { [K in keyof S]: S[K] extends { readonly: true } ? K : never }[keyof S]
+
+/**
+ * Marks the properties of the readonly fields of a schema as `readonly`
+ * 
+ * @template S - a schema of fields
+ * @template T - the properties from the schema
+ */
+export type WithReadonlyFields<S, T> =
+  Pick<T, Exclude<keyof T, ReadonlyKeys<S>>> & Readonly<Pick<T, Extract<keyof T, ReadonlyKeys<S>>>>
+
+/**
+ * The keys of the hidden fields of a schema
+ * 
+ * @template S - a schema of fields
+ */
+export type HiddenKeys<S> = { [K in keyof S]: S[K] extends { hidden: true } ? K : never }[keyof S]
+
+/**
+ * Leaves out the properties of the hidden fields of a schema,
+ *  including those within nested schemas (and so within the
+ *  elements of arrays, the values of indexes and union branches)
+ * 
+ * @template S - a schema of fields
+ * @template T - the properties from the schema
+ */
+export type WithoutHiddenFields<S, T> = VisibleFields<S, Pick<T, Exclude<keyof T, HiddenKeys<S>>>>
+
+type VisibleFields<S, P> = {
+  [K in keyof P]: K extends keyof S ? VisibleValue<S[K], P[K]> : P[K]
+}
+
+// only nested schemas, and fields holding them, have fields within them to leave out
+type VisibleValue<FD, V> =
+  FD extends { _fieldIdentifier: any }
+    ? FD extends ArrayFieldDefinition<infer E> ? V extends Array<infer T> ? VisibleArray<E, T> : V
+    : FD extends IndexedSchemaFieldDefinition<infer S> ? V extends { [key: string]: infer T } ? VisibleIndex<S, T> : V
+    : FD extends UnionFieldDefinition<infer K, infer B>
+      ? V extends { [P in K]: infer D } ? D extends keyof B ? WithoutHiddenFields<B[D], V> : V : V
+    : V
+  : WithoutHiddenFields<FD, V>
+
+// interfaces, rather than aliases, let the visible types refer to themselves
+interface VisibleArray<E, T> extends Array<VisibleValue<E, T>> {}
+interface VisibleIndex<S, T> { [key: string]: VisibleValue<S, T> }
+
 /**
  * Converts a FieldDefinition to a value that the document holds
  */
 export type DocumentField<FD> =
+  // branch off nested schemas first, so that the fields of deeply
+  //  nested schemas stay within the compiler's instantiation depth
+  FD extends { _fieldIdentifier: any } ? DocumentFieldFromDefinition<FD>
+    // else it is an object of DocumentFields, some of which might be optional
+    : FD extends {} ? WithReadonlyFields<FD, UndefinedToOptional<{ [K in keyof FD]: DocumentField<FD[K]> }>>
+    // 🤷
+    : unknown
+
+/**
+ * Converts a FieldDefinition with a `_fieldIdentifier` to a value that the document holds
+ */
+type DocumentFieldFromDefinition<FD> =
   // handle indexed cases
   FD extends { _fieldIdentfier: FieldIdentifier.indexed, indexed: infer I }
     ? I extends { _fieldIdentifier: infer C, vals: infer E }
@@ -86,7 +497,22 @@ export type DocumentField<FD> =
         ? TypeFromIdentifier<FieldIdentifier.indexed, C>
         : unknown
     : FD extends IndexedFieldDefinition<infer T>
-      ? TypeFromIdentifier<FieldIdentifier.indexed, T>
+      ? TypeFromIdentifier<FieldIdentifier.indexed, T> | NullIfOptional<FD>
+    // an index of nested schemas
+    : FD extends IndexedSchemaFieldDefinition<infer S> ? DocumentFieldIndex<S> | NullIfOptional<FD>
+
+    // handle array cases
+    : FD extends ArrayFieldDefinition<infer E> ? DocumentFieldArray<E> | NullIfOptional<FD>
+
+    // handle union cases
+    // (an optional union without a default can also be undefined)
+    : FD extends UnionFieldDefinition<infer K, infer B, false, false> ? DocumentFieldUnion<K, B> | null | undefined
+    : FD extends UnionFieldDefinition<infer K, infer B> ? DocumentFieldUnion<K, B> | NullIfOptional<FD>
+
+    // handle JSON cases
+    : FD extends JsonFieldDefinition<infer T, false, true> ? T | null
+    : FD extends JsonFieldDefinition<infer T, false> ? T | null | undefined
+    : FD extends JsonFieldDefinition<infer T> ? T
 
     // non-indexed cases
     
@@ -100,17 +526,16 @@ export type DocumentField<FD> =
 
     // non-enum cases
     // if it is not required but has a default, can be the type, default or null (but undefined takes default)
-    : FD extends { _fieldIdentifier: infer C, required: false, default: infer D } ? TypeFromIdentifier<C> | D | null
+    // (a default which is a function gives the value, rather than being it)
+    : FD extends { _fieldIdentifier: infer C, required: false, default: infer D } ? TypeFromIdentifier<C> | Exclude<D, Function> | null
     // if it has a default and is optional, can be the type or null (undefined takes the default)
     : FD extends { _fieldIdentifier: infer C, required: false, _hasDefault: true } ? TypeFromIdentifier<C> | null
     // if it has a default, can only be the type
     : FD extends { _fieldIdentifier: infer C, required: false, _hasDefault: true } ? TypeFromIdentifier<C>
     // if it is not required but does not have a default, can be the type, undefined or null
     : FD extends { _fieldIdentifier: infer C, required: false } ? TypeFromIdentifier<C> | undefined | null
-    // else if it has `_fieldIdentifier`, then it is a necessary primitive field
+    // else it is a necessary primitive field
     : FD extends { _fieldIdentifier: infer C } ? TypeFromIdentifier<C>
-    // else it is an object of DocumentFields, some of which might be optional
-    : FD extends {} ? UndefinedToOptional<{ [K in keyof FD]: DocumentField<FD[K]> }>
     // 🤷
     : unknown
 
@@ -118,6 +543,40 @@ export type DocumentField<FD> =
  * Converts a FieldDefinition to a value taken by the document on initialisation
  */
 export type CreateField<FD> =
+  // branch off nested schemas first, as with `DocumentField`
+  FD extends { _fieldIdentifier: any } ? CreateFieldFromDefinition<FD> | CoercedFrom<FD>
+    /* NESTED SCHEMA */
+    // if not a primitive field, it's probably an object of other fields
+    : FD extends {} ? UndefinedToOptional<{ [K in keyof FD]: CreateField<FD[K]> }>
+    // 🤷
+    : unknown
+
+/**
+ * `null`, if a field definition is optional - for fields which
+ *  otherwise always hold a value, such as arrays and indexes
+ */
+type NullIfOptional<FD> = FD extends { required: false } ? null : never
+
+/**
+ * What a field with the `coerce` option converts from, besides its own type
+ */
+type CoercedFrom<FD> = FD extends { coerce: true } ? string : never
+
+/**
+ * Takes strings for the properties of the fields of a schema which
+ *  coerce them, e.g. for the props of an update
+ * 
+ * @template S - a schema of fields
+ * @template T - the properties from the schema
+ */
+export type WithCoercedFields<S, T> = {
+  [K in keyof T]: K extends keyof S ? T[K] | CoercedFrom<S[K]> : T[K]
+}
+
+/**
+ * Converts a FieldDefinition with a `_fieldIdentifier` to a value taken by the document on initialisation
+ */
+type CreateFieldFromDefinition<FD> =
   /* UNUSUAL CASES */
   // handle enum cases: does it have a default value?
   FD extends { _fieldIdentifier: infer C, vals: Array<infer E>, _hasDefault: true } ? TypeFromIdentifier<C, E> | undefined
@@ -128,10 +587,28 @@ export type CreateField<FD> =
     // handle indexed cases
     : FD extends { _fieldIdentifier: FieldIdentifier.indexed, indexed: infer T }
       ? T extends { _fieldIdentifier: FieldIdentifier.enum, vals: Array<infer E> }
-        ? TypeFromIdentifier<FieldIdentifier.indexed, E> | undefined
-        : T extends { _fieldIdentifier: infer C } ? TypeFromIdentifier<FieldIdentifier.indexed, TypeFromIdentifier<C>> | undefined
-      // 🤷
-      : unknown
+        ? TypeFromIdentifier<FieldIdentifier.indexed, E> | undefined | NullIfOptional<FD>
+        : T extends { _fieldIdentifier: infer C } ? TypeFromIdentifier<FieldIdentifier.indexed, TypeFromIdentifier<C>> | undefined | NullIfOptional<FD>
+        // else it is an index of nested schemas
+        : CreateFieldIndex<T> | undefined | NullIfOptional<FD>
+
+    /* ARRAY CASES */
+    // arrays default to empty, so need not be supplied at creation
+    : FD extends ArrayFieldDefinition<infer E> ? CreateFieldArray<E> | undefined | NullIfOptional<FD>
+
+    /* UNION CASES */
+    : FD extends UnionFieldDefinition<infer K, infer B, true, false> ? CreateFieldUnion<K, B>
+    : FD extends UnionFieldDefinition<infer K, infer B> ? CreateFieldUnion<K, B> | undefined | NullIfOptional<FD>
+
+    /* JSON CASES */
+    : FD extends JsonFieldDefinition<infer T, true, false> ? T
+    : FD extends JsonFieldDefinition<infer T> ? T | undefined
+
+    /* TIMESTAMP CASES */
+    // timestamps can be created from a `Date` or epoch millis
+    : FD extends { _fieldIdentifier: FieldIdentifier.timestamp, _hasDefault: true } ? Date | number | undefined
+    : FD extends { _fieldIdentifier: FieldIdentifier.timestamp, required: false } ? Date | number | undefined
+    : FD extends { _fieldIdentifier: FieldIdentifier.timestamp } ? Date | number
 
     /* ORDINARY CASES */
     // if FD._hasDefault === true, then field does not need to be supplied at creation
@@ -140,9 +617,5 @@ export type CreateField<FD> =
     : FD extends { _fieldIdentifier: infer C, required: false } ? TypeFromIdentifier<C> | undefined
     // else if it's a primitive field, then it does need to be supplied at creation
     : FD extends { _fieldIdentifier: infer C } ? TypeFromIdentifier<C>
-
-    /* NESTED SCHEMA */
-    // if not a primitive field, it's probably an object of other fields
-    : FD extends {} ? UndefinedToOptional<{ [K in keyof FD]: CreateField<FD[K]> }>
     // 🤷
     : unknown
\ No newline at end of file
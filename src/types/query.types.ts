@@ -0,0 +1,293 @@
+import { DocumentSchema, ObjectFromDocument } from "./schema.types"
+import { ActiveDocument } from "./class.types"
+import { FieldIdentifier, DocumentField } from "./field.types"
+
+/**
+ * The comparisons that `where` can filter a field by
+ */
+export type WhereOperator = '==' | '>' | '>=' | '<' | '<='
+
+/**
+ * The values that Firebase can start, end or equal a query at
+ */
+export type QueryValue = string | number | boolean | null
+
+/**
+ * A chainable query on the table of an `ActiveClass<S>`, which compiles
+ *  to a Firebase Realtime Database query.
+ *
+ * Firebase can only order (and so filter) by one thing at a time:
+ *  `where` clauses on the ordered field are run by the server, whilst
+ *  `where` clauses on any other field - and strict `>` or `<` comparisons,
+ *  which Firebase only supports inclusively - are also checked on the
+ *  client. Ordering by another field after a `where` moves that clause
+ *  to the client. When any clause is checked on the client, so is the
+ *  `limit`: the server returns every document in the query's range,
+ *  and the limit is applied to those that match.
+ *
+ * The query can be awaited directly, resolving to its `ActiveDocument`s.
+ *
+ * @template S - a DocumentSchema
+ * @template I - the instance type of the queried `ActiveClass<S>`
+ */
+export interface ActiveQuery<S extends DocumentSchema, I = ActiveDocument<S>> extends PromiseLike<I[]> {
+  /**
+   * Filter the query by comparing a field to a value. If the query is
+   *  not yet ordered, it is ordered by this field.
+   *
+   * @param field - the top-level field to compare
+   * @param operator - the comparison to make
+   * @param value - the value to compare the field to
+   */
+  where<K extends keyof ObjectFromDocument<S>>(field: K, operator: WhereOperator, value: ObjectFromDocument<S>[K]): ActiveQuery<S, I>,
+
+  /**
+   * Order the query by a top-level field of its documents
+   *
+   * @param field - the field to order by
+   */
+  orderBy<K extends keyof ObjectFromDocument<S>>(field: K): ActiveQuery<S, I>,
+
+  /**
+   * Order the query by its documents' `_id` keys
+   */
+  orderByKey(): ActiveQuery<S, I>,
+
+  /**
+   * Order the query by its documents' values
+   */
+  orderByValue(): ActiveQuery<S, I>,
+
+  /**
+   * Start the query at a value of the ordered field (inclusive)
+   *
+   * @param value - the value to start at
+   * @param key - the `_id` to start at, amongst documents with that value
+   */
+  startAt(value: QueryValue, key?: string): ActiveQuery<S, I>,
+
+  /**
+   * End the query at a value of the ordered field (inclusive)
+   *
+   * @param value - the value to end at
+   * @param key - the `_id` to end at, amongst documents with that value
+   */
+  endAt(value: QueryValue, key?: string): ActiveQuery<S, I>,
+
+  /**
+   * Only match documents whose ordered field has a given value
+   *
+   * @param value - the value to match
+   * @param key - the `_id` to match, amongst documents with that value
+   */
+  equalTo(value: QueryValue, key?: string): ActiveQuery<S, I>,
+
+  /**
+   * Limit the query to its first `count` documents
+   *
+   * @param count - the maximum number of documents
+   */
+  limit(count: number): ActiveQuery<S, I>,
+
+  /**
+   * Limit the query to its last `count` documents
+   *
+   * @param count - the maximum number of documents
+   */
+  limitToLast(count: number): ActiveQuery<S, I>,
+
+  /**
+   * Compile the query into a Firebase `Query`
+   *
+   * @returns the Firebase `Query`, without any client-side filtering -
+   *  nor its limit, if that has to follow the filtering
+   */
+  ref(): firebase.database.Query,
+
+  /**
+   * Whether a document's values pass the checks that the query makes
+   *  on the client, on top of those compiled into `ref()`
+   *
+   * @param values - the raw values of a document
+   */
+  matches(values: ObjectFromDocument<S>): boolean,
+
+  /**
+   * Apply the query's limit to the documents which match it, if the
+   *  limit could not be compiled into `ref()`
+   *
+   * @param matching - the documents which match, in query order
+   * @returns the documents within the limit
+   */
+  limitMatching<T>(matching: T[]): T[],
+
+  /**
+   * Run the query and retrieve the raw values of matching documents
+   *
+   * @returns an array of the values of matching documents, in query order
+   */
+  values(): Promise<ObjectFromDocument<S>[]>,
+
+  /**
+   * Run the query and retrieve the matching documents
+   *
+   * @returns an array of `ActiveDocument<S>`, in query order
+   */
+  get(): Promise<I[]>
+}
+
+/**
+ * Options for paginating through the table of an `ActiveClass<S>`
+ *
+ * @template S - a DocumentSchema
+ */
+export interface PaginateOpts<S extends DocumentSchema> {
+  /**
+   * The top-level field to order the pages by - pages are
+   *  ordered by `_id` if this is not given
+   */
+  orderBy?: keyof ObjectFromDocument<S>,
+
+  /**
+   * The maximum number of documents in a page
+   */
+  pageSize: number,
+
+  /**
+   * The `nextCursor` of the previous page, if there was one
+   */
+  after?: string | null
+}
+
+/**
+ * A page of documents from the table of an `ActiveClass`
+ *
+ * @template I - the instance type of the `ActiveClass`
+ */
+export interface Page<I> {
+  /**
+   * The documents in the page
+   */
+  items: I[],
+
+  /**
+   * The cursor to pass as `after` to get the next page,
+   *  or `null` if this is the last page
+   */
+  nextCursor: string | null,
+
+  /**
+   * Whether there are more documents after this page
+   */
+  hasMore: boolean
+}
+
+/**
+ * Operators for matching any field by (in)equality
+ *
+ * @template T - the type of the field's values
+ */
+export interface EqualityOperators<T> {
+  /** The field equals the value */
+  $eq?: T,
+  /** The field does not equal the value */
+  $ne?: T,
+  /** The field equals one of the values */
+  $in?: T[],
+  /** The field equals none of the values */
+  $nin?: T[],
+  /** Whether the field is set (neither `undefined` nor `null`) */
+  $exists?: boolean
+}
+
+/**
+ * Operators for matching an ordered field by range
+ *
+ * @template T - the type of the field's values
+ */
+export interface RangeOperators<T> {
+  /** The field is greater than the value */
+  $gt?: T,
+  /** The field is greater than or equal to the value */
+  $gte?: T,
+  /** The field is less than the value */
+  $lt?: T,
+  /** The field is less than or equal to the value */
+  $lte?: T
+}
+
+/**
+ * Operators for matching a string field
+ */
+export interface StringOperators extends EqualityOperators<string>, RangeOperators<string> {
+  /** The field contains the value as a substring */
+  $contains?: string
+}
+
+/**
+ * Operators for matching an indexed field
+ */
+export interface IndexedOperators {
+  /** The index contains the key */
+  $has?: string,
+  /** Whether the index is set (neither `undefined` nor `null`) */
+  $exists?: boolean
+}
+
+/**
+ * The operators that a field can be matched by, depending on its
+ *  `FieldIdentifier`
+ *
+ * @template FD - a field definition
+ */
+export type FieldOperators<FD> =
+  FD extends { _fieldIdentifier: FieldIdentifier.indexed } ? IndexedOperators
+    : FD extends { _fieldIdentifier: FieldIdentifier.enum, vals: Array<infer E> } ? EqualityOperators<E>
+    : FD extends { _fieldIdentifier: FieldIdentifier.number } ? EqualityOperators<number> & RangeOperators<number>
+    // timestamps are stored, and so matched, as epoch millis
+    : FD extends { _fieldIdentifier: FieldIdentifier.timestamp } ? EqualityOperators<Date | number> & RangeOperators<Date | number>
+    : FD extends { _fieldIdentifier: FieldIdentifier.string } ? StringOperators
+    : FD extends { _fieldIdentifier: FieldIdentifier.true } ? EqualityOperators<true>
+    : FD extends { _fieldIdentifier: FieldIdentifier.boolean } ? EqualityOperators<boolean>
+    // nested schemas can only be matched exactly
+    : never
+
+/**
+ * Props to match documents by: each field can either be matched
+ *  exactly by a value, or by an object of operators, e.g.
+ *  `{ age: { $gte: 18 }, role: { $in: ['admin', 'mod'] } }`
+ *
+ * @template S - a DocumentSchema
+ */
+export type MatchProps<S extends DocumentSchema> = {
+  [K in keyof S]?: DocumentField<S[K]> | FieldOperators<S[K]>
+} & {
+  _id?: string | EqualityOperators<string>
+}
+
+/**
+ * A change to the results of a watched query or props
+ *
+ * @template I - the instance type of the watched `ActiveClass`
+ */
+export interface WatchChange<I> {
+  /**
+   * Whether the document was added to, changed within
+   *  or removed from the results
+   */
+  type: 'added' | 'changed' | 'removed',
+
+  /**
+   * The document that was added, changed or removed
+   */
+  document: I
+}
+
+/**
+ * Called with the current results of a watched query or props,
+ *  and with the change that led to them (if it is not the
+ *  initial call)
+ *
+ * @template I - the instance type of the watched `ActiveClass`
+ */
+export type WatchCallback<I> = (documents: I[], change?: WatchChange<I>) => void
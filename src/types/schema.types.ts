@@ -1,8 +1,8 @@
 import { UndefinedToOptional } from './util.types'
-import { FieldIdentifier, FieldDefinition, CreateField, FieldType, DocumentField, IndexedFieldDefinition } from './field.types'
+import { FieldIdentifier, FieldDefinition, AnyFieldDefinition, CreateField, FieldType, DocumentField, IndexedFieldDefinition, IndexedSchemaFieldDefinition, ArrayFieldDefinition, UnionFieldDefinition, JsonFieldDefinition, WithReadonlyFields, ReadonlyKeys, WithoutHiddenFields, WithCoercedFields } from './field.types'
 import Schema from '../Schema'
 
-type SchemaField<FI extends FieldIdentifier = FieldIdentifier> = (IndexedFieldDefinition | FieldDefinition | typeof Schema.boolean | typeof Schema.number | typeof Schema.string) & {
+type SchemaField<FI extends FieldIdentifier = FieldIdentifier> = (IndexedFieldDefinition | IndexedSchemaFieldDefinition | ArrayFieldDefinition | UnionFieldDefinition | JsonFieldDefinition<any> | FieldDefinition | typeof Schema.boolean | typeof Schema.number | typeof Schema.string | typeof Schema.timestamp | typeof Schema.json) & {
   _hasDefault?: boolean
 } & {
   default?: FieldType<FI>
@@ -16,6 +16,19 @@ export interface DocumentSchema {
   [key: string]: SchemaProperty
 }
 
+/**
+ * A field definition or a nested schema, as met when walking a schema
+ */
+export type SchemaDefinition = AnyFieldDefinition | DocumentSchema
+
+/**
+ * The fields added to a schema by the `timestamps` option
+ */
+export interface TimestampsSchema {
+  createdAt: FieldDefinition<Date, true, true> & { readonly: true },
+  updatedAt: FieldDefinition<Date, true, true>
+}
+
 /**
  * Specifies the options argument for creating a document
  * @template S - A Schema of Fields
@@ -28,15 +41,29 @@ export type ToCreateDocument<S extends DocumentSchema> = UndefinedToOptional<{
  * Specifies the properties available on a document
  * @template S - A Schema of Fields
  */
-export type DocumentProps<S extends DocumentSchema> = UndefinedToOptional<{
+export type DocumentProps<S extends DocumentSchema> = WithReadonlyFields<S, UndefinedToOptional<{
   [K in keyof S]: DocumentField<S[K]>
-}>
+}>>
+
+/**
+ * Specifies the properties which an update can change:
+ *  any but those of readonly fields (and strings for those
+ *  which coerce them)
+ * @template S - A Schema of Fields
+ */
+export type UpdateProps<S extends DocumentSchema> = Partial<WithCoercedFields<S, Pick<DocumentProps<S>, Exclude<keyof DocumentProps<S>, ReadonlyKeys<S>>>>>
 
 /**
  * @template S - A Schema of Fields
  */
 export type ObjectFromDocument<S extends DocumentSchema> = DocumentProps<S> & { _id?: string }
 
+/**
+ * The properties of a document as serialised: all but those of hidden fields
+ * @template S - A Schema of Fields
+ */
+export type VisibleObjectFromDocument<S extends DocumentSchema> = WithoutHiddenFields<S, ObjectFromDocument<S>>
+
 export interface FirebaseTable<S extends DocumentSchema> {
   [_id: string]: ObjectFromDocument<S> & { _id: string }
 }
\ No newline at end of file
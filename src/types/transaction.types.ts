@@ -0,0 +1,14 @@
+import { DocumentSchema, ObjectFromDocument } from "./schema.types"
+
+/**
+ * Computes the new values of a document from its current values
+ *  in the database. It may be called more than once, if the
+ *  document is changed by someone else in the meantime, so it
+ *  should not have side effects.
+ * 
+ * Returning `undefined` aborts the transaction.
+ * 
+ * @template S - a DocumentSchema
+ */
+export type TransactionMutator<S extends DocumentSchema> =
+  (values: ObjectFromDocument<S>) => ObjectFromDocument<S> | undefined
@@ -0,0 +1,60 @@
+import ValidationError from '../ActiveClass/Error/ValidationError'
+
+/**
+ * Which check a value failed
+ */
+export type ValidationIssueCode =
+  'required'
+  | 'type'
+  | 'minLength'
+  | 'maxLength'
+  | 'pattern'
+  | 'format'
+  | 'min'
+  | 'max'
+  | 'integer'
+  | 'finite'
+  | 'multipleOf'
+  | 'json'
+  | 'validate'
+
+/**
+ * A way in which some values do not fit a schema
+ */
+export interface ValidationIssue {
+  /**
+   * The path to the value, e.g. 'address.postcode'
+   *  (or '' for the document as a whole)
+   */
+  path: string,
+
+  /**
+   * Which check the value failed
+   */
+  code: ValidationIssueCode,
+
+  /**
+   * Why the value failed the check, e.g. "The property 'age' is of the wrong type"
+   */
+  message: string,
+
+  /**
+   * What the check expected, e.g. 'number'
+   */
+  expected?: string,
+
+  /**
+   * What the check received, e.g. 'string'
+   */
+  received?: string
+}
+
+/**
+ * The result of safely parsing some data against a schema:
+ *  either the parsed data, or the error saying why it did not fit
+ * 
+ * @template T - the type of the parsed data
+ */
+export type SafeParseResult<T> =
+  { success: true, data: T }
+  | { success: false, error: ValidationError }
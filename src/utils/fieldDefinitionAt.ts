@@ -0,0 +1,37 @@
+import { FieldIdentifier } from "../types/field.types"
+
+/**
+ * Find the field definition for a path within a schema, looking
+ *  through nested schemas and into the values of indexed, array and
+ *  union fields. Anything within a JSON field has the JSON field's
+ *  definition.
+ * 
+ * @param schema - The schema to look in
+ * @param path - The path, e.g. 'stats.wins' or ['stats', 'wins']
+ * @returns the field definition at the path, or `undefined` if there
+ *  is none
+ */
+function fieldDefinitionAt(schema: object, path: string | string[]): any {
+  const pathArr = typeof path === 'string' ? path.split('.') : path
+  return pathArr.reduce((definition: any, key) => {
+    if (!definition) return undefined
+    switch (definition._fieldIdentifier) {
+      case FieldIdentifier.indexed: return definition.indexed
+      case FieldIdentifier.array: return /^\d+$/.test(key) ? definition.elements : undefined
+      case FieldIdentifier.union:
+        if (key === definition.discriminator) {
+          return { _fieldIdentifier: FieldIdentifier.enum, vals: Object.keys(definition.branches) }
+        }
+        // the first branch with the key
+        const branch = Object.values(definition.branches)
+          .find((branch: any) => Object.prototype.hasOwnProperty.call(branch, key)) as any
+        return branch ? branch[key] : undefined
+      case FieldIdentifier.json: return definition
+      // primitive fields have nothing within them
+      case undefined: return Object.prototype.hasOwnProperty.call(definition, key) ? definition[key] : undefined
+      default: return undefined
+    }
+  }, schema)
+}
+
+export default fieldDefinitionAt
@@ -0,0 +1,14 @@
+import { SchemaDefinition } from '../types/schema.types'
+import { AnyFieldDefinition } from '../types/field.types'
+
+/**
+ * Whether a definition is of a field, rather than a nested schema
+ *  (which has no `_fieldIdentifier`)
+ *
+ * @param definition - The field definition or nested schema
+ */
+function isFieldDefinition(definition: SchemaDefinition): definition is AnyFieldDefinition {
+  return !!definition._fieldIdentifier
+}
+
+export default isFieldDefinition
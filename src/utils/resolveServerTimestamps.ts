@@ -0,0 +1,43 @@
+import onChange from 'on-change'
+import { get, isPlainObject, set } from 'lodash'
+import { ServerTimestamp } from '../Schema/timestamp.schema'
+
+/**
+ * The paths to the `ServerTimestamp`s within a value
+ *
+ * @param value - The value, e.g. of a document
+ * @param path - The path to the value
+ */
+const serverTimestampPaths = (value: any, path: string[] = []): string[][] => {
+  if (value instanceof ServerTimestamp) return [path]
+  if (Array.isArray(value) || isPlainObject(value)) {
+    return Object.keys(value).reduce((acc, key) => (
+      [...acc, ...serverTimestampPaths(value[key], [...path, key])]
+    ), [] as string[][])
+  }
+  return []
+}
+
+/**
+ * Replace the `ServerTimestamp`s of a written document with the
+ *  times the database stored for them, without syncing them back,
+ *  so that writing the document again does not move them forward
+ *
+ * @param document - The document, once written to the database
+ */
+async function resolveServerTimestamps(document: { ref(): firebase.database.Reference }): Promise<void> {
+  const target: { [key: string]: any } = onChange.target(document)
+  // the document itself is not a plain object
+  const paths = Object.keys(target).reduce((acc, key) => (
+    [...acc, ...serverTimestampPaths(target[key], [key])]
+  ), [] as string[][])
+  if (!paths.length) return
+  const snapshot = await document.ref().once('value')
+  const stored = snapshot.val()
+  paths.forEach(path => {
+    const millis = get(stored, path)
+    if (typeof millis === 'number') set(target, path, new Date(millis))
+  })
+}
+
+export default resolveServerTimestamps
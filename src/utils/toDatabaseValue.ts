@@ -0,0 +1,25 @@
+import firebase from 'firebase/app'
+import { isPlainObject, mapValues, omitBy } from 'lodash'
+import { ServerTimestamp } from '../Schema/timestamp.schema'
+
+/**
+ * Convert a value held by a document into the value to write
+ *  to the database:
+ *  - `Date`s become epoch millis
+ *  - a `ServerTimestamp` becomes `ServerValue.TIMESTAMP`
+ *  - `undefined` properties are removed, as Firebase rejects them
+ *
+ * @param value - The value on the document
+ * @returns the value to write to the database
+ */
+function toDatabaseValue(value: any): any {
+  if (value instanceof ServerTimestamp) return firebase.database.ServerValue.TIMESTAMP
+  if (value instanceof Date) return value.getTime()
+  if (Array.isArray(value)) return value.map(toDatabaseValue)
+  if (isPlainObject(value)) {
+    return mapValues(omitBy(value, val => typeof val === 'undefined'), toDatabaseValue)
+  }
+  return value
+}
+
+export default toDatabaseValue
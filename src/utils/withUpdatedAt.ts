@@ -0,0 +1,17 @@
+import { ActiveClass } from '../types/class.types'
+import { ServerTimestamp } from '../Schema/timestamp.schema'
+
+/**
+ * Add a server `updatedAt` timestamp to the props for an update,
+ *  if the `ActiveClass` has the `timestamps` option
+ * 
+ * @param ActiveClass - The `ActiveClass` being updated
+ * @param props - The props to update
+ */
+const withUpdatedAt = <Props extends object>(ActiveClass: ActiveClass<any>, props: Props): Props => (
+  ActiveClass.options.timestamps
+    ? { ...props, updatedAt: new ServerTimestamp() }
+    : props
+)
+
+export default withUpdatedAt
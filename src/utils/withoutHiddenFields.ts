@@ -0,0 +1,54 @@
+import { isPlainObject, mapValues } from 'lodash'
+import { FieldIdentifier } from '../types/field.types'
+
+/**
+ * Leave out the hidden fields within a value of a field definition
+ *  or nested schema: those of nested schemas, including the elements
+ *  of arrays, the values of indexes and the branch of a union
+ *
+ * @param definition - The field definition or nested schema of the value
+ * @param value - The value
+ * @returns a copy of the value without those of hidden fields
+ */
+const visibleValue = (definition: any, value: any): any => {
+  if (!definition || typeof definition !== 'object') return value
+  // nested schemas have no `_fieldIdentifier`
+  if (!definition._fieldIdentifier) return withoutHiddenFields(definition, value)
+
+  switch (definition._fieldIdentifier) {
+    case FieldIdentifier.array:
+      // arrays may come from the database as objects keyed by index
+      return Array.isArray(value)
+        ? value.map(element => visibleValue(definition.elements, element))
+        : isPlainObject(value) ? mapValues(value, element => visibleValue(definition.elements, element)) : value
+    case FieldIdentifier.indexed:
+      return isPlainObject(value)
+        ? mapValues(value, indexedValue => visibleValue(definition.indexed, indexedValue))
+        : value
+    case FieldIdentifier.union:
+      const branch = isPlainObject(value) && definition.branches[value[definition.discriminator]]
+      return branch ? withoutHiddenFields(branch, value) : value
+    default:
+      return value
+  }
+}
+
+/**
+ * Leave out the values of the hidden fields of a schema, including
+ *  those within nested schemas, e.g. to serialise a document
+ *
+ * @param schema - The schema of the values
+ * @param values - The values, e.g. of a document
+ * @returns a copy of the values without those of hidden fields
+ */
+function withoutHiddenFields(schema: object, values: any): any {
+  if (!isPlainObject(values)) return values
+  return Object.keys(values).reduce((acc, key) => {
+    const definition = (schema as any)[key]
+    if (definition && definition.hidden === true) return acc
+    acc[key] = visibleValue(definition, values[key])
+    return acc
+  }, {} as { [key: string]: any })
+}
+
+export default withoutHiddenFields
@@ -19,3 +19,42 @@ class Person extends ActiveClass(schema) { }
   // @dts-jest:fail
   Person.create({ name: 'Helen', age: '27' })
 }
+
+// @dts-jest:group Queries
+{
+  // @dts-jest:pass
+  Person.query().where('age', '>=', 40).limitToLast(2)
+
+  // @dts-jest:fail
+  Person.query().where('age', '>=', '40')
+
+  // @dts-jest:fail
+  Person.paginate({ orderBy: 'height', pageSize: 2 })
+}
+
+const userSchema = {
+  name: Schema.string,
+  age: Schema.number,
+  role: Schema.enum(['admin', 'mod', 'member']),
+  badges: Schema.indexed.true
+}
+
+class User extends ActiveClass(userSchema) { }
+
+// @dts-jest:group Matching with operators
+{
+  // @dts-jest:pass
+  User.find({ age: { $gte: 18 }, role: { $in: ['admin', 'mod'] } })
+
+  // @dts-jest:pass
+  User.find({ name: { $contains: 'r' }, badges: { $has: 'prefect' } })
+
+  // @dts-jest:fail
+  User.find({ age: { $contains: '1' } })
+
+  // @dts-jest:fail
+  User.find({ role: { $in: ['owner'] } })
+
+  // @dts-jest:fail
+  User.find({ badges: { $gt: 'prefect' } })
+}
@@ -2,6 +2,7 @@ import { ActiveClass, Schema, initialize } from '../../../../../src'
 import { testDatabase } from '../../../../../src/utils/setupTestServer'
 import testExpectError from '../../../../../src/utils/testExpectError';
 import ActiveClassError from '../../../../../src/ActiveClass/Error';
+import sleep from '../../../../../src/utils/sleep';
 
 const { databaseURL, server } = testDatabase()
 
@@ -235,6 +236,192 @@ describe('After initializing', () => {
         done()
       })
     })
+
+    describe('Checking updates against the schema', () => {
+      beforeAll(async (done) => {
+        await Person.delete({})
+        await Person.create({ name: 'Harry', age: 40 })
+        done()
+      })
+
+      testExpectError('Wrong property type', async () => {
+        // @ts-ignore
+        await Person.updateOne({ name: 'Harry' }, { age: 'fifty' })
+      }, {
+        message: `Could not update Person. The property 'age' is of the wrong type`,
+        constructor: ActiveClassError
+      })
+
+      test('Nothing is written', async (done) => {
+        const harry = await Person.findOne({ name: 'Harry' })
+        expect(harry && harry.age).toBe(40)
+        done()
+      })
+    })
+  })
+
+  describe('Matching with operators', () => {
+    const userSchema = {
+      name: Schema.string,
+      age: Schema.number,
+      role: Schema.enum(['admin', 'mod', 'member']),
+      badges: Schema.indexed.true
+    }
+
+    class User extends ActiveClass(userSchema) {}
+
+    beforeAll(async (done) => {
+      await User.ref().set({})
+      await User.create({ name: 'Harry', age: 17, role: 'member', badges: { seeker: true } })
+      await User.create({ name: 'Hermione', age: 18, role: 'admin', badges: { prefect: true } })
+      await User.create({ name: 'Ron', age: 18, role: 'mod', badges: { prefect: true, keeper: true } })
+      done()
+    })
+
+    test('Happy path', async (done) => {
+      const adults = await User.find({ age: { $gte: 18 } })
+      expect(adults.map(user => user.name)).toEqual(['Hermione', 'Ron'])
+
+      const staff = await User.find({ role: { $in: ['admin', 'mod'] } })
+      expect(staff.map(user => user.name)).toEqual(['Hermione', 'Ron'])
+
+      const prefects = await User.find({ badges: { $has: 'prefect' } })
+      expect(prefects.map(user => user.name)).toEqual(['Hermione', 'Ron'])
+
+      const withAnR = await User.find({ name: { $contains: 'r' }, role: { $ne: 'admin' } })
+      expect(withAnR.map(user => user.name)).toEqual(['Harry'])
+
+      expect(await User.delete({ age: { $lt: 18 } })).toBe(1)
+      done()
+    })
+  })
+
+  describe('Queries', () => {
+    beforeEach(async (done) => {
+      await Person.delete({})
+      await Person.create({ name: 'Harry', age: 40 })
+      await Person.create({ name: 'Hermione', age: 41 })
+      await Person.create({ name: 'Ron', age: 40 })
+      await Person.create({ name: 'Ginny', age: 39 })
+      done()
+    })
+
+    describe('#query', () => {
+      test('Happy path', async (done) => {
+        const overForty = await Person.query().where('age', '>=', 40)
+        expect(overForty.map(person => person.name)).toEqual(['Harry', 'Ron', 'Hermione'])
+
+        const oldestTwo = await Person.query().orderBy('age').limitToLast(2)
+        expect(oldestTwo.map(person => person.name)).toEqual(['Ron', 'Hermione'])
+
+        const ron = await Person.query().where('age', '==', 40).where('name', '==', 'Ron')
+        expect(ron.map(person => person.name)).toEqual(['Ron'])
+
+        const values = await Person.query().where('age', '<', 40).values()
+        expect(values).toEqual([{ _id: expect.any(String), name: 'Ginny', age: 39 }])
+        done()
+      })
+    })
+
+    describe('#paginate', () => {
+      test('Happy path', async (done) => {
+        const first = await Person.paginate({ orderBy: 'age', pageSize: 2 })
+        expect(first.items.map(person => person.name)).toEqual(['Ginny', 'Harry'])
+        expect(first.hasMore).toBe(true)
+
+        const second = await Person.paginate({ orderBy: 'age', pageSize: 2, after: first.nextCursor })
+        expect(second.items.map(person => person.name)).toEqual(['Ron', 'Hermione'])
+        expect(second.hasMore).toBe(false)
+        expect(second.nextCursor).toBeNull()
+        done()
+      })
+
+      testExpectError('Invalid page size', async () => {
+        await Person.paginate({ pageSize: 0 })
+      }, {
+        message: `Could not paginate Person. The page size must be a positive integer, but was 0`,
+        constructor: ActiveClassError
+      })
+    })
+
+    describe('#watch', () => {
+      test('Happy path', async (done) => {
+        const calls: Array<[string[], string | undefined]> = []
+        const unwatch = Person.watch({ age: { $gte: 40 } }, (people, change) => {
+          calls.push([people.map(person => person.name), change && change.type])
+        })
+        await sleep(100)
+        expect(calls).toEqual([[['Harry', 'Ron', 'Hermione'], undefined]])
+
+        await Person.create({ name: 'Arthur', age: 60 })
+        expect(calls[1]).toEqual([['Harry', 'Ron', 'Hermione', 'Arthur'], 'added'])
+
+        await Person.updateOne({ name: 'Ron' }, { age: 39 })
+        expect(calls[2]).toEqual([['Harry', 'Hermione', 'Arthur'], 'removed'])
+
+        unwatch()
+        await Person.create({ name: 'Bill', age: 50 })
+        expect(calls).toHaveLength(3)
+        done()
+      })
+    })
+  })
+
+  describe('Atomic updates', () => {
+    class Item extends ActiveClass({
+      name: Schema.string,
+      stock: Schema.number({ min: 0 })
+    }) {}
+
+    let wand: Item
+    beforeEach(async (done) => {
+      await Item.ref().set({})
+      wand = await Item.create({ name: 'Wand', stock: 2 })
+      done()
+    })
+
+    describe('#transaction', () => {
+      test('Happy path', async (done) => {
+        const restocked = await Item.transaction(wand.getId(), item => ({ ...item, stock: item.stock + 10 }))
+        expect(restocked && restocked.stock).toBe(12)
+
+        const aborted = await Item.transaction(wand.getId(), item => item.stock > 10 ? undefined : item)
+        expect(aborted).toBeNull()
+        done()
+      })
+
+      testExpectError('Wrong property type', async () => {
+        // @ts-ignore
+        await Item.transaction(wand.getId(), item => ({ ...item, stock: 'plenty' }))
+      }, {
+        message: `Could not run transaction on Item. The property 'stock' is of the wrong type`,
+        constructor: ActiveClassError
+      })
+    })
+
+    describe('#increment and #decrement', () => {
+      test('Happy path', async (done) => {
+        await Item.decrement(wand.getId(), 'stock')
+        await Item.increment(wand.getId(), 'stock', 5)
+        const { stock } = await Item.findByIdOrFail(wand.getId())
+        expect(stock).toBe(6)
+        done()
+      })
+
+      testExpectError('Breaking a constraint', async () => {
+        await Item.decrement(wand.getId(), 'stock', 10)
+      }, {
+        message: `Could not increment Item. The property 'stock' is less than its min of 0`,
+        constructor: ActiveClassError
+      })
+
+      testExpectError('Missing document', async () => {
+        await Item.increment('this is a really implausible id', 'stock')
+      }, {
+        message: `Could not increment Item. No Item with that id exists in the connected Firebase Realtime Database`,
+        constructor: ActiveClassError
+      })
+    })
   })
 
   describe('Other methods', () => {
@@ -247,6 +434,19 @@ describe('After initializing', () => {
         expect(Person.ref().child('chained').child('path').toString()).toBe(`${baseUrl}/People/chained/path`)
       })
     })
+
+    describe('#validate', () => {
+      test('Happy path', () => {
+        expect(Person.validate({ name: 'Harry', age: 'forty' })).toEqual([{
+          path: 'age',
+          code: 'type',
+          message: `The property 'age' is of the wrong type`,
+          expected: 'number',
+          received: 'string'
+        }])
+        expect(Person.validate({ name: 'Harry', age: 40 })).toEqual([])
+      })
+    })
   })
 })
 
@@ -0,0 +1,25 @@
+import { ActiveClass, Schema } from '../../../../src'
+
+class Note extends ActiveClass({ text: Schema.string }, 'Note', { timestamps: true }) {}
+class Comment extends ActiveClass({ text: Schema.string }) {}
+
+const note = new Note({ text: 'Hello' })
+const comment = new Comment({ text: 'Hello' })
+
+// @dts-jest:group Basic example
+{
+  // @dts-jest:pass
+  note.createdAt.getTime()
+
+  // @dts-jest:pass
+  note.updatedAt.getTime()
+
+  // @dts-jest:pass
+  note.updatedAt = new Date()
+
+  // @dts-jest:fail
+  note.createdAt = new Date()
+
+  // @dts-jest:fail
+  comment.createdAt
+}
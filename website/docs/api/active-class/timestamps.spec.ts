@@ -0,0 +1,92 @@
+import { ActiveClass, Schema, initialize, batch } from '../../../../src'
+import { testDatabase } from '../../../../src/utils/setupTestServer'
+import testExpectError from '../../../../src/utils/testExpectError';
+import ActiveClassError from '../../../../src/ActiveClass/Error';
+import sleep from '../../../../src/utils/sleep';
+
+const { databaseURL } = testDatabase()
+
+const app = initialize({ databaseURL })
+
+afterAll(async (done) => {
+  await app.delete()
+  done()
+})
+
+class Note extends ActiveClass({ text: Schema.string }, 'Note', { timestamps: true }) {}
+
+beforeEach(async (done) => {
+  await Note.ref().set({})
+  done()
+})
+
+const storedTimes = async (note: Note) => {
+  const { createdAt, updatedAt } = (await note.ref().once('value')).val()
+  return { createdAt, updatedAt }
+}
+
+describe('Basic example', () => {
+  test('Sets both to the server time on create', async (done) => {
+    const before = Date.now()
+    const note = await Note.create({ text: 'Hello' })
+    expect(note.createdAt).toBeInstanceOf(Date)
+    expect(note.createdAt.getTime()).toBeGreaterThanOrEqual(before)
+    expect(note.updatedAt.getTime()).toBe(note.createdAt.getTime())
+    expect(await storedTimes(note)).toEqual({
+      createdAt: note.createdAt.getTime(),
+      updatedAt: note.updatedAt.getTime()
+    })
+    done()
+  })
+
+  test('Bumps updatedAt, but not createdAt, on synced writes', async (done) => {
+    const note = await Note.create({ text: 'Hello' })
+    const created = note.createdAt.getTime()
+    await sleep(50)
+    note.text = 'Goodbye'
+    await sleep(100)
+    const { createdAt, updatedAt } = await storedTimes(note)
+    expect(createdAt).toBe(created)
+    expect(updatedAt).toBeGreaterThan(created)
+    done()
+  })
+
+  testExpectError('createdAt is readonly', async () => {
+    const note = await Note.create({ text: 'Hello' })
+    // @ts-ignore : readonly in types
+    note.createdAt = new Date(0)
+  }, {
+    message: `Note could not accept the value "1970-01-01T00:00:00.000Z" (object) at path 'createdAt'. The property 'createdAt' is readonly, so cannot be changed once the Note is saved`,
+    constructor: ActiveClassError
+  })
+})
+
+describe('Other writes', () => {
+  test('Bumps updatedAt on save', async (done) => {
+    const note = new Note({ text: 'Hello', createdAt: 1000, updatedAt: 1000 })
+    await note.save()
+    const { createdAt, updatedAt } = await storedTimes(note)
+    expect(createdAt).toBe(1000)
+    expect(updatedAt).toBeGreaterThan(1000)
+    done()
+  })
+
+  test('Bumps updatedAt on updates, transactions and batches', async (done) => {
+    const note = await Note.create({ text: 'Hello' })
+    const created = note.createdAt.getTime()
+
+    const bumps = async (write: () => Promise<any>) => {
+      await note.ref('updatedAt').set(1000)
+      await write()
+      const { createdAt, updatedAt } = await storedTimes(note)
+      expect(createdAt).toBe(created)
+      expect(updatedAt).toBeGreaterThan(1000)
+    }
+
+    await bumps(() => Note.update({ text: 'Hello' }, { text: 'Hi' }))
+    await bumps(() => Note.updateOne({ text: 'Hi' }, { text: 'Hey' }))
+    await bumps(() => Note.transaction(note.getId(), values => ({ ...values, text: 'Howdy' })))
+    await bumps(() => batch(b => b.update(Note, note.getId(), { text: 'Hiya' })))
+    done()
+  })
+})
@@ -0,0 +1,117 @@
+import { ActiveClass, Schema, initialize, batch } from '../../../src'
+import { testDatabase } from '../../../src/utils/setupTestServer'
+import testExpectError from '../../../src/utils/testExpectError';
+import ActiveClassError from '../../../src/ActiveClass/Error';
+import sleep from '../../../src/utils/sleep';
+
+const { databaseURL } = testDatabase()
+
+const app = initialize({ databaseURL })
+
+afterAll(async (done) => {
+  await app.delete()
+  done()
+})
+
+class Player extends ActiveClass({ name: Schema.string, teamId: Schema.string({ optional: true }) }) {}
+class Team extends ActiveClass({ name: Schema.string, playerIds: Schema.indexed.true }) {}
+
+beforeEach(async (done) => {
+  await Player.ref().set({})
+  await Team.ref().set({})
+  done()
+})
+
+describe('Basic example', () => {
+  test('Writes everything in one commit', async (done) => {
+    const harry = await Player.create({ name: 'Harry' })
+    const oldTeam = await Team.create({ name: 'Gryffindor', playerIds: { [harry.getId()]: true } })
+
+    const newTeam = await batch(async b => {
+      const team = b.create(Team, { name: 'Puddlemere', playerIds: { [harry.getId()]: true } })
+      await b.update(Player, harry.getId(), { teamId: team.getId() })
+      b.delete(Team, oldTeam.getId())
+      return team
+    })
+
+    expect((await Player.findByIdOrFail(harry.getId())).teamId).toBe(newTeam.getId())
+    expect(await Team.findById(oldTeam.getId())).toBeNull()
+    expect((await Team.findByIdOrFail(newTeam.getId())).name).toBe('Puddlemere')
+    done()
+  })
+})
+
+describe('Checking writes', () => {
+  testExpectError('Creating an invalid document', async () => {
+    // @ts-ignore
+    await batch(b => { b.create(Player, { name: 42 }) })
+  }, {
+    message: `Could not create Player in batch. The property 'name' is of the wrong type`,
+    constructor: ActiveClassError
+  })
+
+  testExpectError('Updating a missing document', async () => {
+    await batch(b => b.update(Player, 'this is a really implausible id', { name: 'Ron' }))
+  }, {
+    message: `Could not update Player in batch. No Player with that id exists in the connected Firebase Realtime Database`,
+    constructor: ActiveClassError
+  })
+
+  test('Nothing is written if any write is invalid', async (done) => {
+    const harry = await Player.create({ name: 'Harry' })
+    await expect(batch(b => {
+      b.create(Team, { name: 'Puddlemere', playerIds: {} })
+      // @ts-ignore
+      b.update(Player, harry.getId(), { name: 42 })
+    })).rejects.toThrow(`Could not update Player in batch. The property 'name' is of the wrong type`)
+    expect(await Team.find({})).toHaveLength(0)
+    done()
+  })
+
+  testExpectError('Asynchronous validators', async () => {
+    class Member extends ActiveClass({
+      email: Schema.string({ validateAsync: async email => email !== 'taken@example.com' || 'is already taken' })
+    }) {}
+    await batch(b => { b.create(Member, { email: 'taken@example.com' }) })
+  }, {
+    message: `Could not save Member in batch. The property 'email' failed its validate check: is already taken`,
+    constructor: ActiveClassError
+  })
+})
+
+describe('Saving documents', () => {
+  test('Syncing is paused until the batch commits', async (done) => {
+    const harry = await Player.create({ name: 'Harry' })
+    await batch(async b => {
+      b.save(harry)
+      harry.name = 'Harry Potter'
+      await sleep(100)
+      expect((await Player.findByIdOrFail(harry.getId())).name).toBe('Harry')
+    })
+    expect((await Player.findByIdOrFail(harry.getId())).name).toBe('Harry Potter')
+    done()
+  })
+
+  test('An aborted batch writes nothing, and syncing carries on', async (done) => {
+    const harry = await Player.create({ name: 'Harry' })
+    await expect(batch(async b => {
+      b.save(harry)
+      harry.name = 'Harry Potter'
+      throw new Error('Changed my mind')
+    })).rejects.toThrow('Changed my mind')
+    expect((await Player.findByIdOrFail(harry.getId())).name).toBe('Harry')
+
+    harry.name = 'The Chosen One'
+    await sleep(100)
+    expect((await Player.findByIdOrFail(harry.getId())).name).toBe('The Chosen One')
+    done()
+  })
+
+  test('Documents sync once the batch commits', async (done) => {
+    const ron = await batch(b => b.create(Player, { name: 'Ron' }))
+    ron.name = 'Ronald'
+    await sleep(100)
+    expect((await Player.findByIdOrFail(ron.getId())).name).toBe('Ronald')
+    done()
+  })
+})
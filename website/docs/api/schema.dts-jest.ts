@@ -51,4 +51,34 @@ import { Schema, ActiveClass } from "../../../src"
 
   // @dts-jest:pass
   new User({ name: 'Richard' })
-}
\ No newline at end of file
+}
+
+// @dts-jest:group Default factories
+{
+  const inviteSchema = {
+    email: Schema.string,
+    code: Schema.string({ default: () => 'abc123' }),
+    uses: Schema.number({ optional: true, default: () => 0 }),
+    sentAt: Schema.timestamp({ default: () => Date.now() })
+  }
+
+  class Invite extends ActiveClass(inviteSchema) { }
+
+  // @dts-jest:pass
+  new Invite({ email: 'richard@example.com' })
+
+  const invite = new Invite({ email: 'richard@example.com' })
+
+  // @dts-jest:pass
+  invite.code.toUpperCase()
+
+  // @dts-jest:pass
+  invite.sentAt.getTime()
+
+  // @dts-jest:fail
+  invite.uses = () => 1
+
+  // @dts-jest:fail
+  Schema.string({ default: () => 4 })
+}
+
@@ -55,3 +55,64 @@ describe('Simple configuration', () => {
     expect(user.isVerified).toBe(false)
   })
 })
+
+describe('Default factories', () => {
+  let count = 0
+  const inviteSchema = {
+    email: Schema.string,
+    code: Schema.string({ default: () => `code-${++count}` }),
+    sentAt: Schema.timestamp({ default: () => Date.now() }),
+    role: Schema.enum(['admin', 'basic'], { default: () => 'basic' as 'basic' }),
+    uses: Schema.number({ optional: true, default: () => 0 }),
+    tags: Schema.array({
+      label: Schema.string,
+      isNew: Schema.boolean({ default: () => true })
+    })
+  }
+
+  class Invite extends ActiveClass(inviteSchema) {}
+
+  test('calls the factory for each document', () => {
+    const first = new Invite({ email: 'richard@example.com' })
+    const second = new Invite({ email: 'joe@example.com' })
+    expect(first.code).not.toBe(second.code)
+    expect(first.role).toBe('basic')
+    expect(first.uses).toBe(0)
+  })
+
+  test('makes timestamps from the value given', () => {
+    const before = Date.now()
+    const invite = new Invite({ email: 'richard@example.com' })
+    expect(invite.sentAt).toBeInstanceOf(Date)
+    expect(invite.sentAt.getTime()).toBeGreaterThanOrEqual(before)
+  })
+
+  test('does not call the factory when a value is given', () => {
+    const before = count
+    const invite = new Invite({ email: 'richard@example.com', code: 'welcome' })
+    expect(invite.code).toBe('welcome')
+    expect(count).toBe(before)
+  })
+
+  test('calls the factory within nested schemas', () => {
+    const invite = new Invite({ email: 'richard@example.com', tags: [{ label: 'beta' }] })
+    expect(invite.tags[0].isNew).toBe(true)
+  })
+
+  test('Schema.parse calls the factory too', () => {
+    expect(Schema.parse(inviteSchema, { email: 'richard@example.com' }).code).toMatch(/^code-\d+$/)
+  })
+
+  testExpectError(
+    'checks the value given by the factory',
+    () => {
+      class Broken extends ActiveClass({
+        // @ts-ignore : checking runtime errors
+        count: Schema.number({ default: () => 'none' })
+      }) {}
+      new Broken({})
+    },
+    { message: `Could not construct Broken. The property 'count' is of the wrong type`, constructor: ActiveClassError }
+  )
+})
+
@@ -0,0 +1,107 @@
+import { ActiveClass, Schema } from '../../../../src'
+
+const userSchema = {
+  email: Schema.string,
+  passwordHash: Schema.string({ hidden: true }),
+  role: Schema.enum(['admin', 'member'], { hidden: true, default: 'member' }),
+  settings: Schema.json<{ theme: string }>({ hidden: true, optional: true }),
+  flags: {
+    isFlagged: Schema.boolean({ hidden: true, default: false }),
+    isVerified: Schema.boolean({ default: false })
+  },
+  devices: Schema.array({
+    name: Schema.string,
+    token: Schema.string({ hidden: true })
+  }),
+  sessions: Schema.indexed.of({
+    startedAt: Schema.number,
+    token: Schema.string({ hidden: true })
+  }),
+  login: Schema.union('method', {
+    password: { hash: Schema.string({ hidden: true }) },
+    oauth: { provider: Schema.string, token: Schema.string({ hidden: true }) }
+  }, { optional: true })
+}
+
+class User extends ActiveClass(userSchema) {}
+
+const user = new User({ email: 'richard@example.com', passwordHash: 'hash', flags: {} })
+const { login } = user.toObject()
+
+// @dts-jest:group Documents
+{
+  // @dts-jest:pass
+  user.passwordHash.toUpperCase()
+
+  // @dts-jest:pass
+  user.role = 'admin'
+
+  // @dts-jest:fail
+  user.role = 'owner'
+
+  // @dts-jest:pass
+  user.flags.isFlagged = true
+}
+
+// @dts-jest:group toObject
+{
+  // @dts-jest:pass
+  user.toObject().email.toUpperCase()
+
+  // @dts-jest:pass
+  user.toObject().flags.isVerified
+
+  // @dts-jest:fail
+  user.toObject().passwordHash
+
+  // @dts-jest:fail
+  user.toObject().role
+
+  // @dts-jest:fail
+  user.toObject().settings
+
+  // @dts-jest:fail
+  user.toObject().flags.isFlagged
+
+  // @dts-jest:fail
+  user.toJSON().passwordHash
+
+  // @dts-jest:pass
+  user.toObject({ includeHidden: true }).passwordHash.toUpperCase()
+
+  // @dts-jest:pass
+  user.toObject({ includeHidden: true }).flags.isFlagged
+
+  // @dts-jest:pass
+  user.toObject().devices[0].name
+
+  // @dts-jest:fail
+  user.toObject().devices[0].token
+
+  // @dts-jest:pass
+  user.toObject().sessions.abc.startedAt
+
+  // @dts-jest:fail
+  user.toObject().sessions.abc.token
+
+  // @dts-jest:pass
+  login && login.method === 'oauth' && login.provider
+
+  // @dts-jest:fail
+  login && login.method === 'oauth' && login.token
+
+  // @dts-jest:pass
+  user.toObject({ includeHidden: true }).devices[0].token
+}
+
+// @dts-jest:group Raw values
+{
+  // @dts-jest:pass
+  User.values({ email: 'richard@example.com' }).then(values => values[0].passwordHash)
+
+  // @dts-jest:fail
+  User.values({ email: 'richard@example.com' }, { includeHidden: false }).then(values => values[0].passwordHash)
+
+  // @dts-jest:fail
+  User.value(undefined, { includeHidden: false }).then(value => value && value.passwordHash)
+}
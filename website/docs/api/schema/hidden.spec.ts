@@ -0,0 +1,150 @@
+import { ActiveClass, Schema, initialize } from '../../../../src'
+import { testDatabase } from '../../../../src/utils/setupTestServer'
+
+const { databaseURL } = testDatabase()
+
+const app = initialize({ databaseURL })
+
+afterAll(async (done) => {
+  await app.delete()
+  done()
+})
+
+describe('Basic example', () => {
+  const userSchema = {
+    email: Schema.string,
+    passwordHash: Schema.string({ hidden: true }),
+    flags: {
+      isFlagged: Schema.boolean({ hidden: true, default: false }),
+      isVerified: Schema.boolean({ default: false })
+    }
+  }
+
+  class User extends ActiveClass(userSchema) {}
+
+  test('Holds hidden fields', () => {
+    const user = new User({ email: 'richard@example.com', passwordHash: 'hash', flags: {} })
+    expect(user.passwordHash).toBe('hash')
+    expect(user.flags.isFlagged).toBe(false)
+  })
+
+  test('Leaves hidden fields out of toObject and toJSON', () => {
+    const user = new User({ email: 'richard@example.com', passwordHash: 'hash', flags: {} })
+    expect(user.toObject()).toEqual({ email: 'richard@example.com', flags: { isVerified: false } })
+    expect(JSON.parse(JSON.stringify(user))).toEqual({ email: 'richard@example.com', flags: { isVerified: false } })
+  })
+
+  test('Includes hidden fields when asked', () => {
+    const user = new User({ email: 'richard@example.com', passwordHash: 'hash', flags: {} })
+    expect(user.toObject({ includeHidden: true })).toEqual({
+      email: 'richard@example.com',
+      passwordHash: 'hash',
+      flags: { isFlagged: false, isVerified: false }
+    })
+  })
+
+  test('Stores hidden fields', async (done) => {
+    const user = await User.create({ email: 'richard@example.com', passwordHash: 'hash', flags: {} })
+    const snapshot = await user.ref().once('value')
+    expect(snapshot.val()).toEqual({ _id: user._id, email: 'richard@example.com', passwordHash: 'hash', flags: { isFlagged: false, isVerified: false } })
+    done()
+  })
+
+  describe('Raw values', () => {
+    beforeEach(async (done) => {
+      await User.ref().set({})
+      await User.create({ email: 'richard@example.com', passwordHash: 'hash', flags: {} })
+      done()
+    })
+
+    test('Includes hidden fields by default', async (done) => {
+      const values = await User.values({ email: 'richard@example.com' })
+      expect(values).toEqual([expect.objectContaining({ passwordHash: 'hash' })])
+      done()
+    })
+
+    test('Leaves hidden fields out when asked', async (done) => {
+      const values = await User.values({ email: 'richard@example.com' }, { includeHidden: false })
+      expect(values).toEqual([{ _id: expect.any(String), email: 'richard@example.com', flags: { isVerified: false } }])
+      const value = await User.value(undefined, { includeHidden: false })
+      expect(value).toEqual({ _id: expect.any(String), email: 'richard@example.com', flags: { isVerified: false } })
+      done()
+    })
+  })
+})
+
+describe('Arrays, unions and indexes', () => {
+  const orderSchema = {
+    items: Schema.array(Schema.string),
+    notes: Schema.array(Schema.string, { hidden: true }),
+    payment: Schema.union('method', {
+      card: { last4: Schema.string },
+      cash: {}
+    }, { hidden: true }),
+    discounts: Schema.indexed.number({ hidden: true })
+  }
+
+  class Order extends ActiveClass(orderSchema) {}
+
+  test('Leaves hidden fields out of toObject', () => {
+    const order = new Order({ items: ['tea'], notes: ['regular'], payment: { method: 'cash' }, discounts: { loyalty: 1 } })
+    expect(order.toObject()).toEqual({ items: ['tea'] })
+    expect(order.toObject({ includeHidden: true })).toEqual({
+      items: ['tea'],
+      notes: ['regular'],
+      payment: { method: 'cash' },
+      discounts: { loyalty: 1 }
+    })
+  })
+})
+
+describe('Within arrays, unions and indexes', () => {
+  const accountSchema = {
+    devices: Schema.array({
+      name: Schema.string,
+      token: Schema.string({ hidden: true })
+    }),
+    sessions: Schema.indexed.of({
+      startedAt: Schema.number,
+      token: Schema.string({ hidden: true })
+    }),
+    login: Schema.union('method', {
+      password: { hash: Schema.string({ hidden: true }) },
+      oauth: { provider: Schema.string, token: Schema.string({ hidden: true }) }
+    })
+  }
+
+  class Account extends ActiveClass(accountSchema) {}
+
+  const props = {
+    devices: [{ name: 'Phone', token: 'SECRET1' }],
+    sessions: { abc: { startedAt: 1000, token: 'SECRET2' } },
+    login: { method: 'oauth' as const, provider: 'github', token: 'SECRET3' }
+  }
+
+  test('Leaves hidden fields out of toObject and toJSON', () => {
+    const account = new Account(props)
+    const visible = {
+      devices: [{ name: 'Phone' }],
+      sessions: { abc: { startedAt: 1000 } },
+      login: { method: 'oauth', provider: 'github' }
+    }
+    expect(account.toObject()).toEqual(visible)
+    expect(JSON.parse(JSON.stringify(account))).toEqual(visible)
+    expect(account.toObject({ includeHidden: true })).toEqual(props)
+  })
+
+  test('Leaves hidden fields out of raw values when asked', async (done) => {
+    await Account.ref().set({})
+    await Account.create(props)
+    const [values] = await Account.values(undefined, { includeHidden: false })
+    expect(JSON.stringify(values)).not.toMatch(/SECRET/)
+    expect(values).toEqual({
+      _id: expect.any(String),
+      devices: [{ name: 'Phone' }],
+      sessions: { abc: { startedAt: 1000 } },
+      login: { method: 'oauth', provider: 'github' }
+    })
+    done()
+  })
+})
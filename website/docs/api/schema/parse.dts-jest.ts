@@ -0,0 +1,40 @@
+import { Schema } from '../../../../src'
+
+const orderSchema = {
+  item: Schema.string,
+  quantity: Schema.number({ optional: true }),
+  placedAt: Schema.timestamp
+}
+
+// @dts-jest:group Schema.parse
+{
+  const order = Schema.parse(orderSchema, {})
+
+  // @dts-jest:pass
+  order.item.toUpperCase()
+
+  // @dts-jest:pass
+  order.placedAt.getTime()
+
+  // @dts-jest:fail
+  order.quantity.toFixed()
+
+  // @dts-jest:fail
+  order.item = 4
+}
+
+// @dts-jest:group Schema.safeParse
+{
+  const result = Schema.safeParse(orderSchema, {})
+
+  // @dts-jest:fail
+  result.data
+
+  if (result.success) {
+    // @dts-jest:pass
+    result.data.item.toUpperCase()
+  } else {
+    // @dts-jest:pass
+    result.error.issues
+  }
+}
@@ -0,0 +1,91 @@
+import { Schema } from '../../../../src'
+import testExpectError from '../../../../src/utils/testExpectError';
+import { ValidationError } from '../../../../src/fireactive';
+
+describe('Schema.parse', () => {
+  const orderSchema = {
+    item: Schema.string,
+    quantity: Schema.number({ integer: true, min: 1 }),
+    giftWrap: Schema.boolean({ default: false }),
+    placedAt: Schema.timestamp,
+    address: {
+      postcode: Schema.string({ trim: true }),
+      notes: Schema.string({ optional: true })
+    },
+    tags: Schema.array(Schema.string)
+  }
+
+  test('Returns the data with defaults and conversions applied', () => {
+    const order = Schema.parse(orderSchema, {
+      item: 'Tea',
+      quantity: 2,
+      placedAt: 1590000000000,
+      address: { postcode: ' SW1 ' }
+    })
+    expect(order).toEqual({
+      item: 'Tea',
+      quantity: 2,
+      giftWrap: false,
+      placedAt: new Date(1590000000000),
+      address: { postcode: 'SW1' },
+      tags: []
+    })
+    expect(order.placedAt).toBeInstanceOf(Date)
+  })
+
+  test('Does not mutate the data', () => {
+    const data = { item: 'Tea', quantity: 2, placedAt: 1590000000000, address: { postcode: ' SW1 ' } }
+    Schema.parse(orderSchema, data)
+    expect(data).toEqual({ item: 'Tea', quantity: 2, placedAt: 1590000000000, address: { postcode: ' SW1 ' } })
+  })
+
+  testExpectError(
+    'Throws a ValidationError with every issue',
+    () => { Schema.parse(orderSchema, { item: 'Tea', quantity: 2.5, address: { postcode: 'SW1' } }) },
+    {
+      message: `Could not parse the data. The property 'quantity' is not an integer, as required by its integer option. The required property 'placedAt' is missing`,
+      constructor: ValidationError
+    }
+  )
+
+  testExpectError(
+    'Throws a ValidationError for data which is not an object',
+    () => { Schema.parse(orderSchema, 'Tea') },
+    { message: 'Could not parse the data. The data is not an object', constructor: ValidationError }
+  )
+})
+
+describe('Schema.safeParse', () => {
+  const userSchema = {
+    name: Schema.string({ minLength: 2 }),
+    age: Schema.number({ optional: true })
+  }
+
+  test('Succeeds with the parsed data', () => {
+    expect(Schema.safeParse(userSchema, { name: 'Joe' })).toEqual({
+      success: true,
+      data: { name: 'Joe' }
+    })
+  })
+
+  test('Fails with the error, without throwing', () => {
+    const result = Schema.safeParse(userSchema, { name: 'J', age: '42' })
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error).toBeInstanceOf(ValidationError)
+    expect(result.error.issues.map(issue => issue.path)).toEqual(['name', 'age'])
+  })
+
+  test('Fails for data which is not an object', () => {
+    const result = Schema.safeParse(userSchema, null)
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.issues).toEqual([{
+      path: '',
+      code: 'type',
+      message: 'The data is not an object',
+      expected: 'object',
+      received: 'null'
+    }])
+  })
+})
@@ -0,0 +1,98 @@
+import { ActiveClass, Schema } from '../../../../src'
+
+const postSchema = {
+  slug: Schema.string({ readonly: true }),
+  ownerId: Schema.ref('User', { readonly: true }),
+  title: Schema.string,
+  status: Schema.enum(['draft', 'published'], { readonly: true, default: 'draft' }),
+  views: Schema.number({ readonly: true, optional: true }),
+  meta: {
+    publishedAt: Schema.timestamp({ readonly: true, optional: true }),
+    tags: Schema.json<string[]>({ readonly: true, default: [] })
+  }
+}
+
+class Post extends ActiveClass(postSchema) {}
+
+// @dts-jest:group Creation
+{
+  // @dts-jest:pass
+  new Post({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', meta: {} })
+
+  // @dts-jest:pass
+  new Post({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', status: 'published', views: 3, meta: { tags: ['news'] } })
+
+  // @dts-jest:fail
+  new Post({ ownerId: 'abc', title: 'Hello world', meta: {} })
+
+  // @dts-jest:fail
+  new Post({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', status: 'deleted', meta: {} })
+}
+
+// @dts-jest:group Assignment
+{
+  const post = new Post({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', meta: {} })
+
+  // @dts-jest:pass
+  post.title = 'Hello there'
+
+  // @dts-jest:pass
+  post.slug.toUpperCase()
+
+  // @dts-jest:fail
+  post.slug = 'hello-there'
+
+  // @dts-jest:fail
+  post.ownerId = 'def'
+
+  // @dts-jest:fail
+  post.status = 'published'
+
+  // @dts-jest:fail
+  post.views = 4
+
+  // @dts-jest:fail
+  post.meta.publishedAt = new Date()
+
+  // @dts-jest:fail
+  post.meta.tags = []
+}
+
+// @dts-jest:group Updates
+{
+  // @dts-jest:pass
+  Post.update({ ownerId: 'abc' }, { title: 'Hello there' })
+
+  // @dts-jest:fail
+  Post.update({ ownerId: 'abc' }, { ownerId: 'def' })
+
+  // @dts-jest:fail
+  Post.updateOne({ slug: 'hello-world' }, { slug: 'hello-there' })
+}
+
+// @dts-jest:group Arrays, unions and indexes
+{
+  class Order extends ActiveClass({
+    items: Schema.array(Schema.string, { readonly: true }),
+    payment: Schema.union('method', { card: { last4: Schema.string }, cash: {} }, { readonly: true }),
+    discounts: Schema.indexed.number({ readonly: true }),
+    note: Schema.string({ optional: true })
+  }) {}
+
+  const order = new Order({ items: ['tea'], payment: { method: 'cash' } })
+
+  // @dts-jest:fail
+  order.items = []
+
+  // @dts-jest:fail
+  order.payment = { method: 'cash' }
+
+  // @dts-jest:fail
+  order.discounts = {}
+
+  // @dts-jest:pass
+  Order.update({}, { note: 'No ice' })
+
+  // @dts-jest:fail
+  Order.update({}, { items: [] })
+}
@@ -0,0 +1,125 @@
+import { ActiveClass, Schema, initialize } from '../../../../src'
+import { testDatabase } from '../../../../src/utils/setupTestServer'
+import testExpectError from '../../../../src/utils/testExpectError';
+import ActiveClassError from '../../../../src/ActiveClass/Error';
+
+const { databaseURL } = testDatabase()
+
+const app = initialize({ databaseURL })
+
+afterAll(async (done) => {
+  await app.delete()
+  done()
+})
+
+describe('Basic example', () => {
+  const postSchema = {
+    slug: Schema.string({ readonly: true }),
+    ownerId: Schema.string({ readonly: true }),
+    title: Schema.string,
+    meta: {
+      publishedAt: Schema.timestamp({ readonly: true, optional: true }),
+      tags: Schema.json<string[]>({ readonly: true, default: [] })
+    }
+  }
+
+  class Post extends ActiveClass(postSchema) {}
+
+  test('Can be changed before the document is saved', () => {
+    const post = new Post({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', meta: {} })
+    // @ts-ignore : readonly in types
+    post.slug = 'hello-there'
+    expect(post.slug).toBe('hello-there')
+  })
+
+  test('Other fields can be changed once saved', async (done) => {
+    const post = new Post({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', meta: {} })
+    await post.save()
+    post.title = 'Hello there'
+    expect(post.title).toBe('Hello there')
+    done()
+  })
+
+  testExpectError(
+    'Cannot be assigned once saved',
+    async () => {
+      const post = new Post({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', meta: {} })
+      await post.save()
+      // @ts-ignore : readonly in types
+      post.slug = 'hello-there'
+    },
+    {
+      message: `Post could not accept the value "hello-there" (string) at path 'slug'. The property 'slug' is readonly, so cannot be changed once the Post is saved`,
+      constructor: ActiveClassError
+    }
+  )
+
+  test('Keeps the previous value when refusing a change', async (done) => {
+    const post = await Post.create({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', meta: {} })
+    // @ts-ignore : readonly in types
+    expect(() => { delete post.ownerId }).toThrow(`The property 'ownerId' is readonly`)
+    expect(post.ownerId).toBe('abc')
+    done()
+  })
+
+  test('Refuses changes within nested schemas and JSON fields', async (done) => {
+    const post = await Post.create({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', meta: { tags: ['news'] } })
+    // @ts-ignore : readonly in types
+    expect(() => { post.meta.publishedAt = new Date() }).toThrow(`The property 'meta.publishedAt' is readonly`)
+    expect(() => { post.meta = { tags: ['news'], publishedAt: new Date() } }).toThrow(`The property 'meta.publishedAt' is readonly`)
+    expect(() => { post.meta.tags.push('sport') }).toThrow(`The property 'meta.tags' is readonly`)
+    expect(post.meta).toEqual({ tags: ['news'] })
+    done()
+  })
+
+  test('Allows assigning an equal value', async (done) => {
+    const post = await Post.create({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', meta: {} })
+    post.meta = { tags: [] }
+    expect(post.meta).toEqual({ tags: [] })
+    done()
+  })
+
+  testExpectError(
+    'Cannot be updated',
+    async () => {
+      await Post.create({ slug: 'hello-world', ownerId: 'abc', title: 'Hello world', meta: {} })
+      // @ts-ignore : readonly in types
+      await Post.update({ ownerId: 'abc' }, { ownerId: 'def' })
+    },
+    {
+      message: `Could not update Post. The property 'ownerId' is readonly, so cannot be changed once the Post is saved`,
+      constructor: ActiveClassError
+    }
+  )
+})
+
+describe('Arrays, unions and indexes', () => {
+  const orderSchema = {
+    items: Schema.array(Schema.string, { readonly: true }),
+    payment: Schema.union('method', {
+      card: { last4: Schema.string },
+      cash: {}
+    }, { readonly: true }),
+    discounts: Schema.indexed.number({ readonly: true })
+  }
+
+  class Order extends ActiveClass(orderSchema) {}
+
+  test('Can be changed before the document is saved', () => {
+    const order = new Order({ items: ['tea'], payment: { method: 'cash' } })
+    order.items.push('cake')
+    order.discounts.loyalty = 1
+    expect(order.items).toEqual(['tea', 'cake'])
+    expect(order.discounts).toEqual({ loyalty: 1 })
+  })
+
+  test('Refuses changes once saved, and within them', async (done) => {
+    const order = await Order.create({ items: ['tea'], payment: { method: 'card', last4: '4242' }, discounts: { loyalty: 1 } })
+    expect(() => { order.items.push('cake') }).toThrow(`The property 'items' is readonly`)
+    // @ts-ignore : readonly in types
+    expect(() => { order.payment = { method: 'cash' } }).toThrow(`The property 'payment' is readonly`)
+    expect(() => { order.discounts.loyalty = 2 }).toThrow(`The property 'discounts' is readonly`)
+    expect(order.toObject()).toMatchObject({ items: ['tea'], payment: { method: 'card', last4: '4242' }, discounts: { loyalty: 1 } })
+    done()
+  })
+})
@@ -0,0 +1,113 @@
+import { ActiveClass, Schema } from '../../../../src'
+import testExpectError from '../../../../src/utils/testExpectError';
+import ActiveClassError from '../../../../src/ActiveClass/Error';
+
+describe('Coercion', () => {
+  const bookingSchema = {
+    guests: Schema.number({ coerce: true, integer: true }),
+    isPaid: Schema.boolean({ coerce: true, default: false }),
+    arrival: Schema.timestamp({ coerce: true }),
+    nights: Schema.number({ optional: true }),
+    extras: Schema.array({
+      quantity: Schema.number({ coerce: true })
+    })
+  }
+
+  class Booking extends ActiveClass(bookingSchema) {}
+
+  test('Converts strings on creation', () => {
+    const booking = new Booking({ guests: '2', isPaid: 'false', arrival: '2020-05-20', extras: [{ quantity: '1' }] })
+    expect(booking.guests).toBe(2)
+    expect(booking.isPaid).toBe(false)
+    expect(booking.arrival.getTime()).toBe(new Date('2020-05-20').getTime())
+    expect(booking.extras[0].quantity).toBe(1)
+  })
+
+  test('Converts booleans and epoch millis', () => {
+    const booking = new Booking({ guests: 2, isPaid: '1', arrival: '1590000000000' })
+    expect(booking.isPaid).toBe(true)
+    expect(booking.arrival.getTime()).toBe(1590000000000)
+  })
+
+  test('Converts strings on assignment', () => {
+    const booking = new Booking({ guests: 2, arrival: 1590000000000 })
+    // @ts-ignore : properties are read as they are assigned, so are typed without the string
+    booking.guests = '3'
+    expect(booking.guests).toBe(3)
+  })
+
+  testExpectError(
+    'Strings which are not of the type are still of the wrong type',
+    () => { new Booking({ guests: 'two', arrival: 1590000000000 }) },
+    { message: `Could not construct Booking. The property 'guests' is of the wrong type`, constructor: ActiveClassError }
+  )
+
+  testExpectError(
+    'Constraints are checked on the converted value',
+    () => { new Booking({ guests: '2.5', arrival: 1590000000000 }) },
+    { message: `Could not construct Booking. The property 'guests' is not an integer, as required by its integer option`, constructor: ActiveClassError }
+  )
+
+  testExpectError(
+    'Fields without the option are not coerced',
+    // @ts-ignore : checking runtime errors
+    () => { new Booking({ guests: 2, arrival: 1590000000000, nights: '3' }) },
+    { message: `Could not construct Booking. The property 'nights' is of the wrong type`, constructor: ActiveClassError }
+  )
+
+  test('Schema.parse coerces too', () => {
+    expect(Schema.parse(bookingSchema, { guests: '2', arrival: 1590000000000 }).guests).toBe(2)
+  })
+})
+
+describe('Transforms', () => {
+  const userSchema = {
+    email: Schema.string({ transform: (email: string) => email.toLowerCase(), format: 'email' }),
+    role: Schema.enum(['admin', 'member'], { transform: (role: string) => role.toLowerCase() as 'admin' | 'member' }),
+    score: Schema.number({ coerce: true, transform: (score: number) => Math.round(score), optional: true })
+  }
+
+  class User extends ActiveClass(userSchema) {}
+
+  test('Transforms values on creation', () => {
+    // @ts-ignore : not yet lowercased
+    const user = new User({ email: 'Richard@Example.com', role: 'Admin' })
+    expect(user.email).toBe('richard@example.com')
+    expect(user.role).toBe('admin')
+  })
+
+  test('Transforms values on assignment', () => {
+    const user = new User({ email: 'richard@example.com', role: 'admin' })
+    user.email = 'RICHARD@EXAMPLE.COM'
+    expect(user.email).toBe('richard@example.com')
+  })
+
+  test('Transforms after coercion', () => {
+    const user = new User({ email: 'richard@example.com', role: 'admin', score: '4.6' })
+    expect(user.score).toBe(5)
+  })
+
+  testExpectError(
+    'Values of the wrong type are not transformed',
+    // @ts-ignore : checking runtime errors
+    () => { new User({ email: 4, role: 'admin' }) },
+    { message: `Could not construct User. The property 'email' is of the wrong type`, constructor: ActiveClassError }
+  )
+
+  test('Transforms each value once', () => {
+    class Tally extends ActiveClass({
+      label: Schema.string,
+      points: Schema.number({ transform: (points: number) => points * 10 })
+    }) {}
+    const tally = new Tally({ label: 'Gryffindor', points: 1 })
+    expect(tally.points).toBe(10)
+    tally.label = 'Slytherin'
+    expect(tally.points).toBe(10)
+  })
+
+  testExpectError(
+    'Constraints are checked on the transformed value',
+    () => { new User({ email: 'Not An Email', role: 'admin' }) },
+    { message: `Could not construct User. The property 'email' does not match its format 'email'`, constructor: ActiveClassError }
+  )
+})
@@ -0,0 +1,68 @@
+import { ActiveClass, Schema } from '../../../../../src'
+
+const recipeSchema = {
+  steps: Schema.array(Schema.string),
+  ingredients: Schema.array({
+    name: Schema.string,
+    grams: Schema.number({ optional: true })
+  })
+}
+
+class Recipe extends ActiveClass(recipeSchema) {}
+
+// @dts-jest:group Creation
+{
+  // @dts-jest:pass
+  new Recipe({})
+
+  // @dts-jest:pass
+  new Recipe({ steps: ['Boil the kettle'], ingredients: [{ name: 'Pasta' }] })
+
+  // @dts-jest:fail
+  new Recipe({ steps: [2] })
+
+  // @dts-jest:fail
+  new Recipe({ ingredients: [{ grams: 5 }] })
+}
+
+// @dts-jest:group Assignment
+{
+  const recipe = new Recipe({})
+
+  // @dts-jest:pass
+  recipe.steps.push('Boil the kettle')
+
+  // @dts-jest:fail
+  recipe.steps.push(3)
+
+  // @dts-jest:pass
+  recipe.ingredients[0].name.toUpperCase()
+
+  // @dts-jest:fail
+  recipe.ingredients = [{ grams: 5 }]
+}
+
+// @dts-jest:group Options
+{
+  class Menu extends ActiveClass({
+    dishes: Schema.array(Schema.string, { default: ['Soup'] }),
+    allergens: Schema.array(Schema.string, { optional: true })
+  }) {}
+
+  // @dts-jest:fail
+  Schema.array(Schema.string, { default: [1] })
+
+  // @dts-jest:pass
+  new Menu({ allergens: null })
+
+  // @dts-jest:fail
+  new Menu({ dishes: null })
+
+  const menu = new Menu({})
+
+  // @dts-jest:pass
+  menu.allergens = null
+
+  // @dts-jest:fail
+  menu.dishes = null
+}
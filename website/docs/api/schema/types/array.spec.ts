@@ -0,0 +1,130 @@
+import { ActiveClass, Schema } from '../../../../../src'
+import testExpectError from '../../../../../src/utils/testExpectError';
+import ActiveClassError from '../../../../../src/ActiveClass/Error';
+
+describe('Basic example', () => {
+  const recipeSchema = {
+    steps: Schema.array(Schema.string),
+    ratings: Schema.array(Schema.number)
+  }
+
+  class Recipe extends ActiveClass(recipeSchema) { }
+
+  describe('Creation', () => {
+    test('Defaults to an empty array', () => {
+      const recipe = new Recipe({})
+      expect(recipe.steps).toEqual([])
+      expect(recipe.ratings).toEqual([])
+    })
+
+    test('Each document gets its own default array', () => {
+      const recipe = new Recipe({})
+      const other = new Recipe({})
+      recipe.steps.push('Boil the kettle')
+      expect(other.steps).toEqual([])
+    })
+
+    test('Runtime passes', () => {
+      const recipe = new Recipe({ steps: ['Boil the kettle', 'Add the pasta'], ratings: [4, 5] })
+      expect(recipe.steps).toEqual(['Boil the kettle', 'Add the pasta'])
+    })
+
+    testExpectError(
+      'Requires every element to be the right type',
+      // @ts-ignore
+      () => { new Recipe({ steps: ['Boil the kettle', 2] }) },
+      { message: `Could not construct Recipe. The property 'steps.1' is of the wrong type`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Requires the property to be an array',
+      // @ts-ignore
+      () => { new Recipe({ steps: 'Boil the kettle' }) },
+      { message: `Could not construct Recipe. The property 'steps' is of the wrong type`, constructor: ActiveClassError }
+    )
+
+    test('Accepts arrays as the Realtime Database returns them with gaps', () => {
+      // @ts-ignore
+      const recipe = new Recipe({ steps: { 0: 'Boil the kettle', 2: 'Drain the pasta' } })
+      expect(recipe.steps).toEqual(['Boil the kettle', 'Drain the pasta'])
+    })
+  })
+
+  describe('Updates', () => {
+    const recipe = new Recipe({ steps: ['Boil the kettle'] })
+
+    test('Can push and assign elements', () => {
+      recipe.steps.push('Add the pasta')
+      recipe.steps[0] = 'Boil some water'
+      expect(recipe.steps).toEqual(['Boil some water', 'Add the pasta'])
+    })
+
+    testExpectError("Can't push elements of the wrong type", () => {
+      // @ts-ignore
+      recipe.steps.push(3)
+    }, { message: /The property 'steps.2' is of the wrong type/, constructor: ActiveClassError })
+
+    testExpectError("Can't assign elements of the wrong type", () => {
+      // @ts-ignore
+      recipe.ratings = [4, '5']
+    }, { message: `Recipe could not accept the value [4,"5"] (object) at path 'ratings'. The property 'ratings.1' is of the wrong type`, constructor: ActiveClassError })
+  })
+})
+
+describe('Arrays of nested schemas', () => {
+  const recipeSchema = {
+    ingredients: Schema.array({
+      name: Schema.string,
+      grams: Schema.number({ optional: true }),
+      unit: Schema.enum(['g', 'ml'], { default: 'g' })
+    })
+  }
+
+  class Recipe extends ActiveClass(recipeSchema) { }
+
+  test('Applies defaults to every element', () => {
+    const recipe = new Recipe({ ingredients: [{ name: 'Pasta', grams: 100 }, { name: 'Salt' }] })
+    expect(recipe.ingredients).toEqual([
+      { name: 'Pasta', grams: 100, unit: 'g' },
+      { name: 'Salt', unit: 'g' }
+    ])
+  })
+
+  testExpectError(
+    'Requires the fields of every element',
+    // @ts-ignore
+    () => { new Recipe({ ingredients: [{ name: 'Pasta' }, { grams: 5 }] }) },
+    { message: `Could not construct Recipe. The required property 'ingredients.1.name' is missing`, constructor: ActiveClassError }
+  )
+})
+
+describe('Options', () => {
+  const recipeSchema = {
+    steps: Schema.array(Schema.string, { default: () => ['Wash your hands'] }),
+    tags: Schema.array(Schema.string, { optional: true })
+  }
+
+  class Recipe extends ActiveClass(recipeSchema) { }
+
+  test('Takes a default other than an empty array', () => {
+    expect(new Recipe({}).steps).toEqual(['Wash your hands'])
+    expect(new Recipe({ steps: [] }).steps).toEqual([])
+  })
+
+  test('Allows null when optional', () => {
+    const recipe = new Recipe({ tags: null })
+    expect(recipe.tags).toBeNull()
+    recipe.tags = ['quick']
+    recipe.tags = null
+    expect(recipe.tags).toBeNull()
+    // still defaults to an empty array
+    expect(new Recipe({}).tags).toEqual([])
+  })
+
+  testExpectError(
+    'Rejects null when required',
+    // @ts-ignore : checking runtime errors
+    () => { new Recipe({ steps: null }) },
+    { message: `Could not construct Recipe. The property 'steps' is of the wrong type`, constructor: ActiveClassError }
+  )
+})
@@ -80,3 +80,59 @@ class Dictionary extends ActiveClass(schema) {}
   // @dts-jest:pass
   dictionary.trueVals.someProp = true
 }
+
+class Group extends ActiveClass({
+  members: Schema.indexed.of({
+    role: Schema.enum(['admin', 'member'], { default: 'member' }),
+    joinedAt: Schema.number
+  })
+}) {}
+
+// @dts-jest:group Nested schemas
+{
+  // @dts-jest:pass
+  new Group({ members: { abc: { joinedAt: 5 } } })
+
+  // @dts-jest:fail
+  new Group({ members: { abc: { role: 'admin' } } })
+
+  // @dts-jest:fail
+  new Group({ members: { abc: { role: 'owner', joinedAt: 5 } } })
+
+  const group = new Group({})
+
+  // @dts-jest:pass
+  group.members.abc.role = 'admin'
+
+  // @dts-jest:fail
+  group.members.abc.joinedAt = '5'
+
+  // @dts-jest:pass
+  group.members.def = { role: 'member', joinedAt: 10 }
+}
+
+// @dts-jest:group Options
+{
+  class Team extends ActiveClass({
+    scores: Schema.indexed.number({ default: { practice: 0 } }),
+    flags: Schema.indexed.boolean({ optional: true }),
+    members: Schema.indexed.of({ name: Schema.string }, { optional: true })
+  }) {}
+
+  // @dts-jest:fail
+  Schema.indexed.number({ default: { practice: '0' } })
+
+  // @dts-jest:pass
+  new Team({ flags: null, members: null })
+
+  // @dts-jest:fail
+  new Team({ scores: null })
+
+  const team = new Team({})
+
+  // @dts-jest:pass
+  team.flags = null
+
+  // @dts-jest:fail
+  team.scores = null
+}
@@ -112,4 +112,105 @@ describe('Basic example', () => {
       })
     })
   })
-})
\ No newline at end of file
+})
+describe('Nested schemas', () => {
+  const schema = {
+    members: Schema.indexed.of({
+      role: Schema.enum(['admin', 'member'], { default: 'member' }),
+      joinedAt: Schema.number
+    })
+  }
+
+  class Group extends ActiveClass(schema) { }
+
+  describe('Creation', () => {
+    testExpectError(
+      'Values of the wrong shape',
+      // @ts-ignore
+      () => new Group({ members: { abc: true } }),
+      { message: `Could not construct Group. The property 'members.abc' is of the wrong type`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Values with missing properties',
+      // @ts-ignore
+      () => new Group({ members: { abc: { role: 'admin' } } }),
+      { message: `Could not construct Group. The required property 'members.abc.joinedAt' is missing`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Values with properties of the wrong type',
+      // @ts-ignore
+      () => new Group({ members: { abc: { role: 'owner', joinedAt: 5 } } }),
+      { message: `Could not construct Group. The property 'members.abc.role' is of the wrong type`, constructor: ActiveClassError }
+    )
+
+    test('Runtime passes, with defaults', () => {
+      const group = new Group({ members: { abc: { joinedAt: 5 } } })
+      expect(group.members).toEqual({ abc: { role: 'member', joinedAt: 5 } })
+      expect(new Group({}).members).toEqual({})
+    })
+  })
+
+  describe('Assignment / updates', () => {
+    const group = new Group({ members: { abc: { joinedAt: 5 } } })
+
+    testExpectError(
+      'Cannot add a value of the wrong shape',
+      () => {
+        // @ts-ignore
+        group.members.def = { role: 'owner', joinedAt: 10 }
+      },
+      { message: `Group could not accept the value {"role":"owner","joinedAt":10} (object) at path 'members.def'. The property 'members.def.role' is of the wrong type`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Cannot assign a property of the wrong type',
+      () => {
+        // @ts-ignore
+        group.members.abc.joinedAt = '10'
+      },
+      { message: `Group could not accept the value "10" (string) at path 'members.abc.joinedAt'. The property 'members.abc.joinedAt' is of the wrong type`, constructor: ActiveClassError }
+    )
+
+    it('allows assignment of matching values', () => {
+      group.members.def = { role: 'admin', joinedAt: 10 }
+      group.members.abc.role = 'admin'
+      expect(group.members).toEqual({
+        abc: { role: 'admin', joinedAt: 5 },
+        def: { role: 'admin', joinedAt: 10 }
+      })
+    })
+  })
+})
+
+describe('Options', () => {
+  const schema = {
+    scores: Schema.indexed.number({ default: () => ({ practice: 0 }) }),
+    flags: Schema.indexed.boolean({ optional: true }),
+    roles: Schema.indexed.enum(['admin', 'member'], { default: { owner: 'admin' } }),
+    members: Schema.indexed.of({ name: Schema.string }, { optional: true })
+  }
+
+  class Team extends ActiveClass(schema) { }
+
+  test('Takes a default other than an empty index', () => {
+    const team = new Team({})
+    expect(team.scores).toEqual({ practice: 0 })
+    expect(team.roles).toEqual({ owner: 'admin' })
+    expect(team.flags).toEqual({})
+  })
+
+  test('Allows null when optional', () => {
+    const team = new Team({ flags: null, members: null })
+    expect(team.flags).toBeNull()
+    expect(team.members).toBeNull()
+  })
+
+  testExpectError(
+    'Rejects null when required',
+    // @ts-ignore : checking runtime errors
+    () => { new Team({ scores: null }) },
+    { message: `Could not construct Team. The property 'scores' is of the wrong type`, constructor: ActiveClassError }
+  )
+})
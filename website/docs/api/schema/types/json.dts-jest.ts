@@ -0,0 +1,49 @@
+import { ActiveClass, Schema } from '../../../../../src'
+
+interface Preferences {
+  theme?: { dark: boolean, accent: string }
+}
+
+const userSchema = {
+  name: Schema.string,
+  preferences: Schema.json<Preferences>({ default: {} }),
+  lastWebhook: Schema.json({ optional: true }),
+  payload: Schema.json<number[]>()
+}
+
+class User extends ActiveClass(userSchema) {}
+
+// @dts-jest:group Creation
+{
+  // @dts-jest:pass
+  new User({ name: 'Richard', payload: [1, 2] })
+
+  // @dts-jest:fail
+  new User({ name: 'Richard' })
+
+  // @dts-jest:fail
+  new User({ name: 'Richard', payload: ['1'] })
+
+  // @dts-jest:fail
+  new User({ name: 'Richard', payload: [], preferences: { theme: { dark: 'yes' } } })
+}
+
+// @dts-jest:group Assignment
+{
+  const user = new User({ name: 'Richard', payload: [] })
+
+  // @dts-jest:pass
+  user.preferences.theme = { dark: true, accent: '#ff0000' }
+
+  // @dts-jest:fail
+  user.preferences.theme = { dark: 'yes' }
+
+  // @dts-jest:pass
+  user.payload.push(3)
+
+  // @dts-jest:pass
+  user.lastWebhook = { anything: ['goes'] }
+
+  // @dts-jest:fail
+  user.lastWebhook.anything
+}
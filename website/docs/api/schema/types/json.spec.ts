@@ -0,0 +1,132 @@
+import { ActiveClass, Schema } from '../../../../../src'
+import testExpectError from '../../../../../src/utils/testExpectError';
+import ActiveClassError from '../../../../../src/ActiveClass/Error';
+
+describe('Basic example', () => {
+  const userSchema = {
+    name: Schema.string,
+    preferences: Schema.json<{ [key: string]: any }>({ default: {} }),
+    lastWebhook: Schema.json({ optional: true }),
+    payload: Schema.json
+  }
+
+  class User extends ActiveClass(userSchema) {}
+
+  describe('Creation', () => {
+    test('Accepts any JSON value', () => {
+      const user = new User({
+        name: 'Richard',
+        payload: { event: 'paid', amounts: [1, 2.5, null], nested: { ok: true, note: 'thanks' } }
+      })
+      expect(user.payload).toEqual({ event: 'paid', amounts: [1, 2.5, null], nested: { ok: true, note: 'thanks' } })
+      expect(new User({ name: 'Richard', payload: 'text' }).payload).toBe('text')
+    })
+
+    test('Copies the default for each document', () => {
+      const first = new User({ name: 'Richard', payload: 1 })
+      const second = new User({ name: 'Joe', payload: 1 })
+      first.preferences.dark = true
+      expect(second.preferences).toEqual({})
+    })
+
+    testExpectError(
+      'Is required by default',
+      // @ts-ignore : checking runtime errors
+      () => { new User({ name: 'Richard' }) },
+      { message: `Could not construct User. The required property 'payload' is missing`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Rejects functions',
+      () => { new User({ name: 'Richard', payload: { onLoad: () => {} } }) },
+      { message: `Could not construct User. The property 'payload.onLoad' is not JSON-serialisable`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Rejects undefined elements of arrays',
+      () => { new User({ name: 'Richard', payload: [1, undefined] }) },
+      { message: `Could not construct User. The property 'payload.1' is not JSON-serialisable`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Rejects empty objects and arrays when required, as the database does not store them',
+      () => { new User({ name: 'Richard', payload: [] }) },
+      { message: `Could not construct User. The required property 'payload' is empty, which the database does not store`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Rejects undefined properties',
+      () => { new User({ name: 'Richard', payload: { theme: undefined } }) },
+      { message: `Could not construct User. The property 'payload.theme' is not JSON-serialisable`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Rejects instances of classes',
+      () => { new User({ name: 'Richard', payload: { at: new Date() } }) },
+      { message: `Could not construct User. The property 'payload.at' is not JSON-serialisable`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Rejects keys which the database does not allow',
+      () => { new User({ name: 'Richard', payload: { 'utm.source': 'email' } }) },
+      { message: `Could not construct User. The property 'payload' has the key "utm.source", which the database does not allow`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Rejects empty keys',
+      () => { new User({ name: 'Richard', payload: { tags: { '': true } } }) },
+      { message: `Could not construct User. The property 'payload.tags' has the key "", which the database does not allow`, constructor: ActiveClassError }
+    )
+
+    test('Describes the issue', () => {
+      expect(User.validate({ name: 'Richard', payload: { count: NaN } })).toEqual([{
+        path: 'payload.count',
+        code: 'json',
+        message: `The property 'payload.count' is not JSON-serialisable`,
+        expected: 'JSON',
+        received: 'NaN'
+      }])
+    })
+  })
+
+  describe('Assignment', () => {
+    test('Accepts changes within the value', () => {
+      const user = new User({ name: 'Richard', payload: { event: 'signup' } })
+      user.preferences.theme = { dark: true }
+      user.preferences.theme.dark = false
+      delete user.preferences.theme
+      expect(user.preferences).toEqual({})
+    })
+
+    testExpectError(
+      'Rejects values within which are not JSON-serialisable',
+      () => {
+        const user = new User({ name: 'Richard', payload: { event: 'signup' } })
+        user.preferences.onLoad = () => {}
+      },
+      { message: /The property 'preferences.onLoad' is not JSON-serialisable/, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Rejects keys which the database does not allow',
+      () => {
+        const user = new User({ name: 'Richard', payload: { event: 'signup' } })
+        user.preferences = { 'a.b': 1 }
+      },
+      { message: /The property 'preferences' has the key "a.b", which the database does not allow/, constructor: ActiveClassError }
+    )
+
+    test('Keeps the previous value after rejecting a change', () => {
+      const user = new User({ name: 'Richard', payload: { event: 'signup' }, preferences: { theme: 'dark' } })
+      expect(() => { user.preferences.onLoad = () => {} }).toThrow(ActiveClassError)
+      expect(() => { user.preferences.theme = undefined }).toThrow(ActiveClassError)
+      expect(user.preferences).toEqual({ theme: 'dark' })
+    })
+
+    test('Allows null when optional', () => {
+      const user = new User({ name: 'Richard', payload: { event: 'signup' } })
+      user.lastWebhook = null
+      expect(user.lastWebhook).toBeNull()
+    })
+  })
+})
@@ -77,4 +77,39 @@ class BuildingConfigured extends ActiveClass(configuredSchema) {}
 
   // @dts-jest:pass
   building.chimneys = null
-}
\ No newline at end of file
+}
+// @dts-jest:group Constraints
+{
+  // @dts-jest:pass
+  Schema.number({ min: 0, max: 5, integer: true, finite: false, multipleOf: 0.5 })
+
+  // @dts-jest:pass
+  Schema.number({ min: 0, optional: true })
+
+  // @dts-jest:fail
+  Schema.number({ min: '0' })
+
+  // @dts-jest:fail
+  Schema.number({ minLength: 3 })
+}
+// @dts-jest:group Coercion
+{
+  class Booking extends ActiveClass({ guests: Schema.number({ coerce: true, integer: true }), nights: Schema.number }) {}
+
+  // @dts-jest:pass
+  new Booking({ guests: '2', nights: 3 })
+
+  // @dts-jest:fail
+  new Booking({ guests: 2, nights: '3' })
+
+  // @dts-jest:pass
+  Booking.update({ guests: 2 }, { guests: '3' })
+
+  // @dts-jest:fail
+  Booking.update({ guests: 2 }, { nights: '3' })
+
+  const booking = new Booking({ guests: '2', nights: 3 })
+
+  // @dts-jest:pass
+  booking.guests.toFixed()
+}
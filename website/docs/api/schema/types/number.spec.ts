@@ -134,4 +134,65 @@ describe('Configuration', () => {
       expect(building.chimneys).toBeNull()
     })
   })
-})
\ No newline at end of file
+})
+describe('Constraints', () => {
+  const productSchema = {
+    price: Schema.number({ min: 0, multipleOf: 0.01 }),
+    quantity: Schema.number({ integer: true, default: 1 }),
+    rating: Schema.number({ min: 1, max: 5, optional: true }),
+    score: Schema.number({ finite: false, optional: true })
+  }
+
+  class Product extends ActiveClass(productSchema) {}
+
+  describe('Creation', () => {
+    testExpectError(
+      'Below the min',
+      () => { new Product({ price: -1 }) },
+      { message: `Could not construct Product. The property 'price' is less than its min of 0`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Above the max',
+      () => { new Product({ price: 1, rating: 6 }) },
+      { message: `Could not construct Product. The property 'rating' is greater than its max of 5`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Not an integer',
+      () => { new Product({ price: 1, quantity: 1.5 }) },
+      { message: `Could not construct Product. The property 'quantity' is not an integer, as required by its integer option`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Not a multiple',
+      () => { new Product({ price: 1.005 }) },
+      { message: `Could not construct Product. The property 'price' is not a multiple of 0.01, as required by its multipleOf option`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Not finite',
+      () => { new Product({ price: NaN }) },
+      { message: `Could not construct Product. The property 'price' is not a finite number, as required by its finite option`, constructor: ActiveClassError }
+    )
+
+    test('Runtime passes', () => {
+      expect(() => new Product({ price: 0.3, quantity: 3, rating: 5 })).not.toThrow()
+      expect(() => new Product({ price: 19.99, score: Infinity })).not.toThrow()
+    })
+  })
+
+  describe('Updates', () => {
+    const product = new Product({ price: 10 })
+
+    testExpectError(
+      'Cannot break a constraint',
+      () => { product.price = Infinity },
+      { message: `Product could not accept the value null (number) at path 'price'. The property 'price' is not a finite number, as required by its finite option`, constructor: ActiveClassError }
+    )
+
+    it('keeps the previous value after breaking a constraint', () => {
+      expect(product.price).toBe(10)
+    })
+  })
+})
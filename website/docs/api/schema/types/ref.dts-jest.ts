@@ -0,0 +1,37 @@
+import { ActiveClass, Schema } from '../../../../../src'
+
+class Author extends ActiveClass({
+  name: Schema.string
+}) {}
+
+class Book extends ActiveClass({
+  title: Schema.string,
+  authorId: Schema.ref(Author, { as: 'author' }),
+  editorId: Schema.ref('Editor', { optional: true })
+}) {}
+
+// @dts-jest:group Creation
+{
+  // @dts-jest:pass
+  new Book({ title: 'Animal Farm', authorId: 'abc' })
+
+  // @dts-jest:fail
+  new Book({ title: 'Animal Farm' })
+
+  // @dts-jest:fail
+  new Book({ title: 'Animal Farm', authorId: 4 })
+}
+
+// @dts-jest:group Accessors
+{
+  const book = new Book({ title: 'Animal Farm', authorId: 'abc' })
+
+  // @dts-jest:pass
+  book.authorId.toUpperCase()
+
+  // @dts-jest:pass
+  book.author().then(author => author && author.name.toUpperCase())
+
+  // @dts-jest:fail
+  book.author().then(author => author.name)
+}
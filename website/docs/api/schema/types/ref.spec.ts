@@ -0,0 +1,105 @@
+import { ActiveClass, Schema, initialize, relations } from '../../../../../src'
+import { testDatabase } from '../../../../../src/utils/setupTestServer'
+import testExpectError from '../../../../../src/utils/testExpectError';
+import ActiveClassError from '../../../../../src/ActiveClass/Error';
+
+class Author extends ActiveClass({
+  name: Schema.string
+}) {}
+
+class Book extends ActiveClass({
+  title: Schema.string,
+  authorId: Schema.ref(Author),
+  editorId: Schema.ref('Editor', { optional: true }),
+  writtenWith: Schema.ref(Author, { as: 'coauthor', optional: true })
+}) {}
+
+class Editor extends ActiveClass({
+  name: Schema.string
+}) {}
+
+relations.store(Editor)
+
+const { databaseURL } = testDatabase()
+
+const app = initialize({ databaseURL })
+
+afterAll(async (done) => {
+  await app.delete()
+  done()
+})
+
+describe('Basic example', () => {
+  testExpectError(
+    'Checks the field as a string',
+    // @ts-ignore : checking runtime errors
+    () => { new Book({ title: 'Animal Farm', authorId: 4 }) },
+    { message: `Could not construct Book. The property 'authorId' is of the wrong type`, constructor: ActiveClassError }
+  )
+
+  testExpectError(
+    'Is required by default',
+    // @ts-ignore : checking runtime errors
+    () => { new Book({ title: 'Animal Farm' }) },
+    { message: `Could not construct Book. The required property 'authorId' is missing`, constructor: ActiveClassError }
+  )
+
+  test('Stores the _id', async (done) => {
+    const orwell = await Author.create({ name: 'George Orwell' })
+    const book = await Book.create({ title: 'Animal Farm', authorId: orwell.getId() })
+    expect(await Book.value({ title: 'Animal Farm' })).toMatchObject({ authorId: orwell.getId() })
+    expect(book.authorId).toBe(orwell.getId())
+    done()
+  })
+
+  test('Adds an accessor named after the field', async (done) => {
+    const orwell = await Author.create({ name: 'George Orwell' })
+    const book = await Book.create({ title: 'Animal Farm', authorId: orwell.getId() })
+    // @ts-ignore : only typed with the `as` option
+    const author = await book.author()
+    expect(author).toBeInstanceOf(Author)
+    expect(author.name).toBe('George Orwell')
+    done()
+  })
+
+  test('Adds an accessor named by the as option', async (done) => {
+    const orwell = await Author.create({ name: 'George Orwell' })
+    const huxley = await Author.create({ name: 'Aldous Huxley' })
+    const book = await Book.create({ title: 'Animal Farm', authorId: orwell.getId(), writtenWith: huxley.getId() })
+    const coauthor = await book.coauthor()
+    expect(coauthor && coauthor.name).toBe('Aldous Huxley')
+    done()
+  })
+
+  test('Finds classes by their stored name', async (done) => {
+    const orwell = await Author.create({ name: 'George Orwell' })
+    const editor = await Editor.create({ name: 'Fredric Warburg' })
+    const book = await Book.create({ title: 'Animal Farm', authorId: orwell.getId(), editorId: editor.getId() })
+    // @ts-ignore : only typed with the `as` option
+    const found = await book.editor()
+    expect(found.name).toBe('Fredric Warburg')
+    done()
+  })
+
+  test('Resolves to null without an _id, or without a document', async (done) => {
+    const book = new Book({ title: 'Animal Farm', authorId: 'nobody' })
+    expect(await book.coauthor()).toBeNull()
+    // @ts-ignore : only typed with the `as` option
+    expect(await book.author()).toBeNull()
+    done()
+  })
+})
+
+describe('Naming the accessor', () => {
+  test('A field without an Id suffix needs the as option', () => {
+    expect(() => {
+      class Review extends ActiveClass({ book: Schema.ref(Book) }) {}
+    }).toThrow(`Could not add an accessor for the ref field 'book'. Give the field an 'as' option to name its accessor`)
+  })
+
+  test('An accessor cannot replace a property of documents', () => {
+    expect(() => {
+      class Review extends ActiveClass({ bookId: Schema.ref(Book, { as: 'save' }) }) {}
+    }).toThrow(`Could not add an accessor for the ref field 'bookId'. 'save' is already a property of the documents`)
+  })
+})
@@ -77,4 +77,18 @@ class DinosaurConfigured extends ActiveClass(configuredSchema) {}
 
   // @dts-jest:pass
   dinosaur.home = null
-}
\ No newline at end of file
+}
+// @dts-jest:group Constraints
+{
+  // @dts-jest:pass
+  Schema.string({ minLength: 3, maxLength: 12, pattern: /^[a-z]+$/, trim: true })
+
+  // @dts-jest:pass
+  Schema.string({ format: 'email', optional: true })
+
+  // @dts-jest:fail
+  Schema.string({ minLength: '3' })
+
+  // @dts-jest:fail
+  Schema.string({ format: 'phone' })
+}
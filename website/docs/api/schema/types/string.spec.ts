@@ -134,4 +134,91 @@ describe('Configuration', () => {
       expect(dinosaur.home).toBeNull()
     })
   })
-})
\ No newline at end of file
+})
+describe('Constraints', () => {
+  const userSchema = {
+    username: Schema.string({ minLength: 3, maxLength: 12, trim: true }),
+    code: Schema.string({ pattern: /^[A-Z]+$/, optional: true }),
+    email: Schema.string({ format: 'email', optional: true }),
+    website: Schema.string({ format: 'url', optional: true }),
+    apiKey: Schema.string({ format: 'uuid', optional: true }),
+    handle: Schema.string({ format: 'slug', optional: true })
+  }
+
+  class User extends ActiveClass(userSchema) {}
+
+  describe('Creation', () => {
+    testExpectError(
+      'Too short',
+      () => { new User({ username: 'ab' }) },
+      { message: `Could not construct User. The property 'username' is shorter than its minLength of 3`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Too long',
+      () => { new User({ username: 'abcdefghijklm' }) },
+      { message: `Could not construct User. The property 'username' is longer than its maxLength of 12`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Not matching the pattern',
+      () => { new User({ username: 'richard', code: 'abc' }) },
+      { message: `Could not construct User. The property 'code' does not match its pattern /^[A-Z]+$/`, constructor: ActiveClassError }
+    )
+
+    const formatCases: [keyof typeof userSchema, string, string][] = [
+      ['email', 'richard@', 'email'],
+      ['website', 'example.com', 'url'],
+      ['apiKey', '1234', 'uuid'],
+      ['handle', 'Richard Ng', 'slug']
+    ]
+
+    formatCases.forEach(([key, value, format]) => {
+      testExpectError(
+        `Not matching the ${format} format`,
+        () => { new User({ username: 'richard', [key]: value }) },
+        { message: `Could not construct User. The property '${key}' does not match its format '${format}'`, constructor: ActiveClassError }
+      )
+    })
+
+    test('Runtime passes', () => {
+      expect(() => new User({
+        username: 'richard',
+        code: 'ABC',
+        email: 'richard@example.com',
+        website: 'https://example.com/about',
+        apiKey: '123e4567-e89b-12d3-a456-426614174000',
+        handle: 'richard-ng'
+      })).not.toThrow()
+    })
+
+    test('Trimming before checking', () => {
+      expect(new User({ username: '  richard  ' }).username).toBe('richard')
+      expect(() => new User({ username: '  ab  ' })).toThrow(`The property 'username' is shorter than its minLength of 3`)
+    })
+  })
+
+  describe('Updates', () => {
+    const user = new User({ username: 'richard' })
+
+    testExpectError(
+      'Cannot break a constraint',
+      () => { user.username = 'ab' },
+      { message: `User could not accept the value "ab" (string) at path 'username'. The property 'username' is shorter than its minLength of 3`, constructor: ActiveClassError }
+    )
+
+    it('keeps the previous value after breaking a constraint', () => {
+      expect(user.username).toBe('richard')
+    })
+
+    it('trims assigned values', () => {
+      user.username = ' rich '
+      expect(user.username).toBe('rich')
+    })
+
+    it('allows null for optional fields', () => {
+      user.email = null
+      expect(user.email).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { ActiveClass, Schema } from '../../../../../src'
+
+const simpleSchema = {
+  builtAt: Schema.timestamp
+}
+
+class BuildingSimple extends ActiveClass(simpleSchema) {}
+
+// @dts-jest:group Basic creation
+{
+  // @dts-jest:fail
+  new BuildingSimple({})
+
+  // @dts-jest:fail
+  new BuildingSimple({ builtAt: '1931-04-11' })
+
+  // @dts-jest:fail
+  new BuildingSimple({ builtAt: null })
+
+  // @dts-jest:pass
+  new BuildingSimple({ builtAt: new Date() })
+
+  // @dts-jest:pass
+  new BuildingSimple({ builtAt: Date.now() })
+}
+
+// @dts-jest:group Basic assignment
+{
+  const building = new BuildingSimple({ builtAt: Date.now() })
+
+  // @dts-jest:pass
+  building.builtAt = new Date()
+
+  // @dts-jest:pass
+  building.builtAt.getTime()
+
+  // @dts-jest:fail
+  building.builtAt = '1931-04-11'
+}
+
+const configuredSchema = {
+  builtAt: Schema.timestamp,
+  listedAt: Schema.timestamp({ default: 0 }),
+  demolishedAt: Schema.timestamp({ optional: true }),
+  updatedAt: Schema.timestamp({ default: 'serverNow' })
+}
+
+class BuildingConfigured extends ActiveClass(configuredSchema) {}
+
+// @dts-jest:group Configuration
+{
+  // @dts-jest:pass
+  new BuildingConfigured({ builtAt: Date.now() })
+
+  const building = new BuildingConfigured({ builtAt: Date.now() })
+
+  // @dts-jest:fail
+  building.builtAt = null
+
+  // @dts-jest:fail
+  building.listedAt = null
+
+  // @dts-jest:pass
+  building.demolishedAt = null
+
+  // @dts-jest:pass
+  building.demolishedAt = undefined
+
+  // @dts-jest:pass
+  building.updatedAt = new Date()
+}
@@ -0,0 +1,92 @@
+import { ActiveClass, Schema } from '../../../../../src'
+import testExpectError from '../../../../../src/utils/testExpectError';
+import ActiveClassError from '../../../../../src/ActiveClass/Error';
+
+describe('Basic example', () => {
+  const buildingSchema = {
+    builtAt: Schema.timestamp
+  }
+
+  class Building extends ActiveClass(buildingSchema) { }
+
+  describe('Creation', () => {
+    describe('Runtime errors', () => {
+      testExpectError(
+        'Requires the property',
+        // @ts-ignore
+        () => new Building({}),
+        { message: `Could not construct Building. The required property 'builtAt' is missing`, constructor: ActiveClassError }
+      )
+
+      testExpectError(
+        'Requires the property to be the right type',
+        // @ts-ignore
+        () => new Building({ builtAt: '1931-04-11' }),
+        { message: `Could not construct Building. The property 'builtAt' is of the wrong type`, constructor: ActiveClassError }
+      )
+
+      testExpectError(
+        'Requires the property to be a valid date',
+        () => { new Building({ builtAt: new Date('not a date') }) },
+        { message: `Could not construct Building. The property 'builtAt' is of the wrong type`, constructor: ActiveClassError }
+      )
+    })
+
+    test('Runtime passes with a Date or epoch millis', () => {
+      const fromDate = new Building({ builtAt: new Date(-1222732800000) })
+      const fromMillis = new Building({ builtAt: -1222732800000 })
+      expect(fromDate.builtAt.getTime()).toBe(-1222732800000)
+      expect(fromMillis.builtAt).toBeInstanceOf(Date)
+      expect(fromMillis.builtAt.getTime()).toBe(-1222732800000)
+    })
+  })
+
+  describe('Updates', () => {
+    const building = new Building({ builtAt: 0 })
+
+    test("Can assign dates and epoch millis", () => {
+      building.builtAt = new Date(1000)
+      expect(building.builtAt.getTime()).toBe(1000)
+      // @ts-ignore : millis are accepted at run-time, but the document always holds a Date
+      building.builtAt = 2000
+      expect(building.builtAt).toBeInstanceOf(Date)
+      expect(building.builtAt.getTime()).toBe(2000)
+    })
+
+    testExpectError("Can't assign other values", () => {
+      // @ts-ignore
+      building.builtAt = 'yesterday'
+    }, { message: `Building could not accept the value "yesterday" (string) at path 'builtAt'. The property 'builtAt' is of the wrong type`, constructor: ActiveClassError })
+  })
+})
+
+describe('Configuration', () => {
+  const buildingSchema = {
+    builtAt: Schema.timestamp,
+    listedAt: Schema.timestamp({ default: 0 }),
+    demolishedAt: Schema.timestamp({ optional: true }),
+    updatedAt: Schema.timestamp({ default: 'serverNow' })
+  }
+
+  class Building extends ActiveClass(buildingSchema) {}
+
+  const building = new Building({ builtAt: 1000 })
+
+  test('Initial values', () => {
+    expect(building.builtAt.getTime()).toBe(1000)
+    expect(building.listedAt.getTime()).toBe(0)
+    expect(building.demolishedAt).toBeUndefined()
+    expect(building.updatedAt).toBeInstanceOf(Date)
+  })
+
+  test('Each document gets its own default Date', () => {
+    const other = new Building({ builtAt: 1000 })
+    other.listedAt.setTime(5000)
+    expect(building.listedAt.getTime()).toBe(0)
+  })
+
+  test('Optional timestamps can be null', () => {
+    building.demolishedAt = null
+    expect(building.demolishedAt).toBeNull()
+  })
+})
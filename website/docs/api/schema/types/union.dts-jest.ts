@@ -0,0 +1,78 @@
+import { ActiveClass, Schema } from '../../../../../src'
+
+const notificationSchema = {
+  userId: Schema.string,
+  event: Schema.union('type', {
+    comment: { text: Schema.string },
+    like: { count: Schema.number({ default: 1 }) }
+  })
+}
+
+class Notification extends ActiveClass(notificationSchema) {}
+
+// @dts-jest:group Creation
+{
+  // @dts-jest:pass
+  new Notification({ userId: 'abc', event: { type: 'comment', text: 'Nice!' } })
+
+  // @dts-jest:pass
+  new Notification({ userId: 'abc', event: { type: 'like' } })
+
+  // @dts-jest:fail
+  new Notification({ userId: 'abc', event: { type: 'comment' } })
+
+  // @dts-jest:fail
+  new Notification({ userId: 'abc', event: { type: 'share' } })
+
+  // @dts-jest:fail
+  new Notification({ userId: 'abc' })
+}
+
+// @dts-jest:group Narrowing
+{
+  const notification = new Notification({ userId: 'abc', event: { type: 'like' } })
+
+  // @dts-jest:fail
+  notification.event.text
+
+  if (notification.event.type === 'comment') {
+    // @dts-jest:pass
+    notification.event.text.toUpperCase()
+  } else {
+    // @dts-jest:pass
+    notification.event.count.toFixed()
+  }
+
+  // @dts-jest:pass
+  notification.event = { type: 'like', count: 3 }
+
+  // @dts-jest:fail
+  notification.event = { type: 'like', text: 'Nice!' }
+}
+
+// @dts-jest:group Options
+{
+  class Alert extends ActiveClass({
+    event: Schema.union('type', {
+      comment: { text: Schema.string },
+      like: {}
+    }, { default: { type: 'like' } }),
+    reply: Schema.union('type', {
+      comment: { text: Schema.string }
+    }, { optional: true })
+  }) {}
+
+  // @dts-jest:pass
+  new Alert({})
+
+  // @dts-jest:fail
+  Schema.union('type', { like: {} }, { default: { type: 'comment' } })
+
+  const alert = new Alert({})
+
+  // @dts-jest:pass
+  alert.reply = null
+
+  // @dts-jest:fail
+  alert.event = null
+}
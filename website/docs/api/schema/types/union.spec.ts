@@ -0,0 +1,145 @@
+import { ActiveClass, Schema } from '../../../../../src'
+import testExpectError from '../../../../../src/utils/testExpectError';
+import ActiveClassError from '../../../../../src/ActiveClass/Error';
+
+describe('Basic example', () => {
+  const notificationSchema = {
+    userId: Schema.string,
+    event: Schema.union('type', {
+      comment: { text: Schema.string({ minLength: 1 }) },
+      like: { count: Schema.number({ default: 1 }) }
+    })
+  }
+
+  class Notification extends ActiveClass(notificationSchema) {}
+
+  describe('Creation', () => {
+    test('Checks the branch selected by the discriminator', () => {
+      const notification = new Notification({ userId: 'abc', event: { type: 'comment', text: 'Nice!' } })
+      expect(notification.event).toEqual({ type: 'comment', text: 'Nice!' })
+    })
+
+    test('Applies the defaults of the branch', () => {
+      const notification = new Notification({ userId: 'abc', event: { type: 'like' } })
+      expect(notification.event).toEqual({ type: 'like', count: 1 })
+    })
+
+    testExpectError(
+      'Requires the fields of the branch',
+      // @ts-ignore : checking runtime errors
+      () => { new Notification({ userId: 'abc', event: { type: 'comment' } }) },
+      { message: `Could not construct Notification. The required property 'event.text' is missing`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Checks constraints within the branch',
+      () => { new Notification({ userId: 'abc', event: { type: 'comment', text: '' } }) },
+      { message: `Could not construct Notification. The property 'event.text' is shorter than its minLength of 1`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Requires the discriminator to select a branch',
+      // @ts-ignore : checking runtime errors
+      () => { new Notification({ userId: 'abc', event: { type: 'share' } }) },
+      { message: `Could not construct Notification. The property 'event.type' is of the wrong type`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Requires the discriminator',
+      // @ts-ignore : checking runtime errors
+      () => { new Notification({ userId: 'abc', event: { text: 'Nice!' } }) },
+      { message: `Could not construct Notification. The required property 'event.type' is missing`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Requires the field',
+      // @ts-ignore : checking runtime errors
+      () => { new Notification({ userId: 'abc' }) },
+      { message: `Could not construct Notification. The required property 'event' is missing`, constructor: ActiveClassError }
+    )
+
+    test('Describes the branches in issues', () => {
+      // @ts-ignore : checking runtime errors
+      expect(Notification.validate({ userId: 'abc', event: { type: 'share' } })).toEqual([{
+        path: 'event.type',
+        code: 'type',
+        message: `The property 'event.type' is of the wrong type`,
+        expected: '"comment" | "like"',
+        received: '"share"'
+      }])
+    })
+  })
+
+  describe('Assignment', () => {
+    test('Can switch branch', () => {
+      const notification = new Notification({ userId: 'abc', event: { type: 'comment', text: 'Nice!' } })
+      notification.event = { type: 'like', count: 3 }
+      expect(notification.event).toEqual({ type: 'like', count: 3 })
+    })
+
+    testExpectError(
+      'Checks fields within the branch',
+      () => {
+        const notification = new Notification({ userId: 'abc', event: { type: 'like' } })
+        // @ts-ignore : checking runtime errors
+        notification.event.count = 'three'
+      },
+      { message: `Notification could not accept the value "three" (string) at path 'event.count'. The property 'event.count' is of the wrong type`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Checks the discriminator',
+      () => {
+        const notification = new Notification({ userId: 'abc', event: { type: 'like' } })
+        // @ts-ignore : checking runtime errors
+        notification.event.type = 'share'
+      },
+      { message: `Notification could not accept the value "share" (string) at path 'event.type'. The property 'event.type' is of the wrong type`, constructor: ActiveClassError }
+    )
+  })
+
+  test('Works within arrays', () => {
+    const feedSchema = {
+      events: Schema.array(Schema.union('kind', {
+        post: { title: Schema.string },
+        photo: { url: Schema.string({ format: 'url' }) }
+      }))
+    }
+    expect(() => Schema.parse(feedSchema, {
+      events: [{ kind: 'post', title: 'Hello' }, { kind: 'photo', url: 'not a url' }]
+    })).toThrow(`Could not parse the data. The property 'events.1.url' does not match its format 'url'`)
+  })
+})
+
+describe('Options', () => {
+  const notificationSchema = {
+    event: Schema.union('type', {
+      comment: { text: Schema.string },
+      like: { count: Schema.number({ default: 1 }) }
+    }, { default: { type: 'like' } }),
+    reply: Schema.union('type', {
+      comment: { text: Schema.string }
+    }, { optional: true })
+  }
+
+  class Notification extends ActiveClass(notificationSchema) {}
+
+  test('Takes a default, which is checked against its branch', () => {
+    expect(new Notification({}).event).toEqual({ type: 'like', count: 1 })
+  })
+
+  test('Allows the value to be missing or null when optional', () => {
+    const notification = new Notification({})
+    expect(notification.reply).toBeUndefined()
+    notification.reply = { type: 'comment', text: 'Thanks!' }
+    notification.reply = null
+    expect(notification.reply).toBeNull()
+  })
+
+  testExpectError(
+    'Rejects null when required',
+    // @ts-ignore : checking runtime errors
+    () => { new Notification({ event: null }) },
+    { message: `Could not construct Notification. The property 'event' is of the wrong type`, constructor: ActiveClassError }
+  )
+})
@@ -0,0 +1,232 @@
+import { ActiveClass, Schema } from '../../../../src'
+import testExpectError from '../../../../src/utils/testExpectError';
+import ActiveClassError from '../../../../src/ActiveClass/Error';
+import { ValidationError } from '../../../../src/fireactive';
+
+describe('Field validators', () => {
+  const userSchema = {
+    username: Schema.string({ validate: (username: string) => username !== 'admin' || 'is reserved' }),
+    age: Schema.number({ validate: (age: number) => age >= 13 }),
+    nickname: Schema.string({ optional: true, validate: (nickname: string) => nickname.length > 0 }),
+    pets: Schema.array({
+      name: Schema.string({ validate: (name: string) => name !== name.toLowerCase() || 'must be capitalised' })
+    })
+  }
+
+  class User extends ActiveClass(userSchema) {}
+
+  describe('Creation', () => {
+    testExpectError(
+      'Failing with a message',
+      () => { new User({ username: 'admin', age: 20 }) },
+      { message: `Could not construct User. The property 'username' failed its validate check: is reserved`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Failing without a message',
+      () => { new User({ username: 'richard', age: 10 }) },
+      { message: `Could not construct User. The property 'age' failed its validate check`, constructor: ActiveClassError }
+    )
+
+    testExpectError(
+      'Failing within a nested schema',
+      () => { new User({ username: 'richard', age: 20, pets: [{ name: 'Rex' }, { name: 'fido' }] }) },
+      { message: `Could not construct User. The property 'pets.1.name' failed its validate check: must be capitalised`, constructor: ActiveClassError }
+    )
+
+    test('Runtime passes', () => {
+      expect(() => new User({ username: 'richard', age: 20, pets: [{ name: 'Rex' }] })).not.toThrow()
+    })
+
+    test('Validators are not given null or undefined', () => {
+      const user = new User({ username: 'richard', age: 20 })
+      expect(() => { user.nickname = null }).not.toThrow()
+    })
+  })
+
+  describe('Updates', () => {
+    const user = new User({ username: 'richard', age: 20 })
+
+    testExpectError(
+      'Cannot assign an invalid value',
+      () => { user.age = 12 },
+      { message: `User could not accept the value 12 (number) at path 'age'. The property 'age' failed its validate check`, constructor: ActiveClassError }
+    )
+
+    it('keeps the previous value after an invalid assignment', () => {
+      expect(user.age).toBe(20)
+    })
+  })
+})
+
+describe('Validators of arrays, indexes and unions', () => {
+  const playlistSchema = {
+    tracks: Schema.array(
+      Schema.string({ validate: (track: string) => track.length > 0 }),
+      { validate: (tracks: string[]) => tracks.length <= 100 || 'has too many tracks' }
+    )
+  }
+
+  class Playlist extends ActiveClass(playlistSchema) {}
+
+  testExpectError(
+    'Failing within the value',
+    () => { new Playlist({ tracks: [''] }) },
+    { message: `Could not construct Playlist. The property 'tracks.0' failed its validate check`, constructor: ActiveClassError }
+  )
+
+  testExpectError(
+    'Failing as a whole',
+    () => { new Playlist({ tracks: Array(101).fill('Yesterday') }) },
+    { message: `Could not construct Playlist. The property 'tracks' failed its validate check: has too many tracks`, constructor: ActiveClassError }
+  )
+
+  test('Runtime passes', () => {
+    expect(() => new Playlist({ tracks: ['Yesterday'] })).not.toThrow()
+  })
+})
+
+describe('Document validators', () => {
+  const eventSchema = {
+    startDate: Schema.timestamp,
+    endDate: Schema.timestamp
+  }
+
+  const validate = jest.fn((event: any) => event.endDate > event.startDate || 'endDate must be after startDate')
+
+  class Event extends ActiveClass(eventSchema, 'Event', { validate }) {}
+
+  testExpectError(
+    'Failing on creation',
+    () => { new Event({ startDate: 2000, endDate: 1000 }) },
+    { message: `Could not construct Event. The document failed its validate check: endDate must be after startDate`, constructor: ActiveClassError }
+  )
+
+  testExpectError(
+    'Failing on assignment',
+    () => {
+      const event = new Event({ startDate: 1000, endDate: 2000 })
+      event.endDate = new Date(500)
+    },
+    { message: `Event could not accept the value "1970-01-01T00:00:00.500Z" (object) at path 'endDate'. The document failed its validate check: endDate must be after startDate`, constructor: ActiveClassError }
+  )
+
+  test('Validators are given the document', () => {
+    new Event({ startDate: 1000, endDate: 2000 })
+    const [[event]] = validate.mock.calls.slice(-1)
+    expect(event).toBeInstanceOf(Event)
+    expect(event.endDate.getTime()).toBe(2000)
+  })
+})
+
+describe('Asynchronous validators', () => {
+  const validateAsync = jest.fn(async (username: string) => username !== 'taken')
+
+  class Account extends ActiveClass({ username: Schema.string({ validateAsync }) }, 'Account', { validateAsync }) {}
+
+  test('Are not run on construction or assignment', () => {
+    const account = new Account({ username: 'taken' })
+    account.username = 'still taken'
+    expect(account.username).toBe('still taken')
+    expect(validateAsync).not.toHaveBeenCalled()
+  })
+
+  testExpectError(
+    'A validate option which returns a promise fails',
+    () => {
+      class Account extends ActiveClass({
+        // @ts-ignore : checking runtime errors
+        username: Schema.string({ validate: async (username: string) => username !== 'taken' })
+      }) {}
+      new Account({ username: 'free' })
+    },
+    { message: `Could not construct Account. The property 'username' failed its validate check: returned a promise, so should be given as validateAsync`, constructor: ActiveClassError }
+  )
+})
+
+describe('Validation errors', () => {
+  const userSchema = {
+    username: Schema.string({ minLength: 3 }),
+    age: Schema.number({ min: 13 }),
+    address: {
+      postcode: Schema.string({ pattern: /^[A-Z0-9 ]+$/ })
+    }
+  }
+
+  class User extends ActiveClass(userSchema, 'User', {
+    validate: (user: any) => user.username !== user.address.postcode || 'username must not be the postcode'
+  }) {}
+
+  testExpectError(
+    'Collects every issue',
+    // @ts-ignore : checking runtime errors
+    () => { new User({ username: 'al', age: 'ten', address: { postcode: 'sw1' } }) },
+    {
+      message: `Could not construct User. The property 'username' is shorter than its minLength of 3. The property 'age' is of the wrong type. The property 'address.postcode' does not match its pattern /^[A-Z0-9 ]+$/`,
+      constructor: ValidationError
+    }
+  )
+
+  test('Issues describe each failing check', () => {
+    expect.assertions(3)
+    try {
+      // @ts-ignore : checking runtime errors
+      new User({ username: 'al', address: { postcode: 'SW1' } })
+    } catch (err) {
+      expect(err).toBeInstanceOf(ActiveClassError)
+      expect(err).toBeInstanceOf(ValidationError)
+      expect(err.issues).toEqual([
+        {
+          path: 'username',
+          code: 'minLength',
+          message: `The property 'username' is shorter than its minLength of 3`,
+          expected: 'at least 3 characters',
+          received: '2 characters'
+        },
+        {
+          path: 'age',
+          code: 'required',
+          message: `The required property 'age' is missing`,
+          expected: 'number',
+          received: 'undefined'
+        }
+      ])
+    }
+  })
+
+  test('Document validators only run once the fields are valid', () => {
+    // @ts-ignore : checking runtime errors
+    expect(User.validate({ username: 'SW1', age: 'ten', address: { postcode: 'SW1' } })).toHaveLength(1)
+    expect(User.validate({ username: 'SW1', age: 20, address: { postcode: 'SW1' } })).toEqual([
+      {
+        path: '',
+        code: 'validate',
+        message: 'The document failed its validate check: username must not be the postcode'
+      }
+    ])
+  })
+
+  describe('ActiveClass.validate', () => {
+    test('Returns the issues without throwing', () => {
+      const issues = User.validate({ username: 'al', age: 10, address: { postcode: 'SW1' } })
+      expect(issues.map(issue => issue.code)).toEqual(['minLength', 'min'])
+      expect(issues[1]).toEqual({
+        path: 'age',
+        code: 'min',
+        message: `The property 'age' is less than its min of 13`,
+        expected: 'at least 13',
+        received: '10'
+      })
+    })
+
+    test('Returns an empty array for valid props', () => {
+      expect(User.validate({ username: 'richard', age: 20, address: { postcode: 'SW1' } })).toEqual([])
+    })
+
+    test('Does not mutate the props', () => {
+      const props = { username: '  richard  ', age: 20 }
+      expect(User.validate(props)).toHaveLength(1)
+      expect(props).toEqual({ username: '  richard  ', age: 20 })
+    })
+  })
+})
@@ -20,6 +20,7 @@ module.exports = {
         "ActiveClass": [
           'api/active-class',
           'api/active-class/methods/static',
+          'api/active-class/timestamps',
           // 'api/active-class/methods/prototype'
         ],
         "ActiveDocument": [
@@ -31,17 +32,28 @@ module.exports = {
         "Schema": [
           'api/schema',
           'api/schema/nested',
+          'api/schema/validation',
+          'api/schema/transforms',
+          'api/schema/readonly',
+          'api/schema/hidden',
+          'api/schema/parse',
           {
             "Types": [
+              'api/schema/types/array',
               'api/schema/types/boolean',
               'api/schema/types/enum',
               'api/schema/types/indexed',
+              'api/schema/types/json',
               'api/schema/types/number',
-              'api/schema/types/string'
+              'api/schema/types/ref',
+              'api/schema/types/string',
+              'api/schema/types/timestamp',
+              'api/schema/types/union'
             ]
           }
         ]
-      }
+      },
+      'api/batch'
     ] 
   },
 };